@@ -2,7 +2,11 @@ import typescript from '@rollup/plugin-typescript';
 import { nodeResolve } from '@rollup/plugin-node-resolve';
 import commonjs from '@rollup/plugin-commonjs';
 
-const plugins = [typescript(), commonjs(), nodeResolve({ resolveOnly: ['ts-pattern', 'lodash.setwith', 'change-case', '@pentops/sort-helpers'] })];
+const plugins = [
+  typescript(),
+  commonjs(),
+  nodeResolve({ resolveOnly: ['ts-pattern', 'lodash.setwith', 'change-case', '@pentops/sort-helpers', 'yaml', 'json5'] }),
+];
 
 export default [
   {
@@ -0,0 +1,98 @@
+import { sortByKey } from '@pentops/sort-helpers';
+import { Translation } from './helpers';
+
+/**
+ * `report` builds the files and records how they differ from the files on disk without writing anything, `error` also fails
+ * the run when any file is out of date or any language is missing translations present in the source language.
+ */
+export type I18nPluginCheckMode = 'report' | 'error';
+
+export interface TranslationKeyChange {
+  key: string;
+  previousValue: string;
+  value: string;
+}
+
+export interface TranslationFileCheck {
+  fileName: string;
+  writePath: string;
+  language: string;
+  namespace: string;
+  added: string[];
+  removed: string[];
+  changed: TranslationKeyChange[];
+  // missing are the source language keys without a translation in the file on disk
+  missing: string[];
+}
+
+export interface I18nPluginCheckResult {
+  // outOfDateFiles are the write paths of all files whose generated content differs from their content on disk
+  outOfDateFiles: string[];
+  translationFiles: TranslationFileCheck[];
+  passed: boolean;
+}
+
+export function diffTranslations(previous: Map<string, Translation>, next: Map<string, Translation>) {
+  const added: string[] = [];
+  const removed: string[] = [];
+  const changed: TranslationKeyChange[] = [];
+
+  for (const [key, translation] of next) {
+    const previousTranslation = previous.get(key);
+
+    if (!previousTranslation) {
+      added.push(key);
+    } else if (previousTranslation.value !== translation.value) {
+      changed.push({ key, previousValue: previousTranslation.value, value: translation.value });
+    }
+  }
+
+  for (const key of previous.keys()) {
+    if (!next.has(key)) {
+      removed.push(key);
+    }
+  }
+
+  return {
+    added: sortByKey(added, (key) => key),
+    removed: sortByKey(removed, (key) => key),
+    changed: sortByKey(changed, (change) => change.key),
+  };
+}
+
+export function findMissingTranslations(translations: Map<string, Translation>, sourceTranslations: Map<string, Translation>) {
+  return sortByKey(
+    Array.from(sourceTranslations.keys()).filter((key) => !translations.has(key)),
+    (key) => key,
+  );
+}
+
+export function isTranslationFileCheckPassing(check: TranslationFileCheck) {
+  return !check.added.length && !check.removed.length && !check.changed.length && !check.missing.length;
+}
+
+export function formatCheckResult(result: I18nPluginCheckResult) {
+  const lines: string[] = [];
+
+  for (const check of result.translationFiles) {
+    if (isTranslationFileCheckPassing(check)) {
+      continue;
+    }
+
+    lines.push(`${check.writePath} (${check.language}):`);
+    lines.push(...check.added.map((key) => `  + ${key}`));
+    lines.push(...check.removed.map((key) => `  - ${key}`));
+    lines.push(...check.changed.map((change) => `  ~ ${change.key}: "${change.previousValue}" -> "${change.value}"`));
+    lines.push(...check.missing.map((key) => `  ? ${key} (missing translation)`));
+  }
+
+  const translationFilePaths = new Set(result.translationFiles.map((check) => check.writePath));
+
+  for (const writePath of result.outOfDateFiles) {
+    if (!translationFilePaths.has(writePath)) {
+      lines.push(`${writePath}: out of date`);
+    }
+  }
+
+  return lines.join('\n');
+}
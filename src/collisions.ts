@@ -0,0 +1,50 @@
+import { joinKeySegments, splitKey, Translation } from './helpers';
+
+/**
+ * `report` records collisions and writes files as before, with keys nested beneath a leaf written as one dotted key beside
+ * it in nested files, `error` fails the run, and `keepFirst` keeps the first generated translation for duplicate keys and
+ * the leaf translation for leaf/branch collisions, dropping the translations nested beneath it.
+ */
+export type I18nPluginKeyCollisionPolicy = 'report' | 'error' | 'keepFirst';
+
+export interface KeyCollision {
+  // duplicate collisions are the same key written twice, leafBranch collisions are a key written both as a value and as a parent of other keys
+  type: 'duplicate' | 'leafBranch';
+  fileName: string;
+  language: string;
+  key: string;
+  conflictingKey: string;
+  // sources are the generated names of the schemas or client functions the colliding translations were written for
+  sources: string[];
+}
+
+export function getTranslationSourceName(translation: Translation) {
+  return translation.source?.generatedName ?? translation.clientFunctionSource?.generatedName;
+}
+
+export function getCollisionSources(...translations: Translation[]) {
+  return Array.from(new Set(translations.map(getTranslationSourceName).filter((name): name is string => Boolean(name))));
+}
+
+// findLeafBranchCollisions returns pairs of a leaf translation and a translation whose key is nested beneath it
+export function findLeafBranchCollisions(translations: Map<string, Translation>): [Translation, Translation][] {
+  const collisions: [Translation, Translation][] = [];
+
+  for (const [key, translation] of translations) {
+    const segments = splitKey(key);
+
+    for (let i = 1; i < segments.length; i++) {
+      const leaf = translations.get(joinKeySegments(...segments.slice(0, i)));
+
+      if (leaf) {
+        collisions.push([leaf, translation]);
+      }
+    }
+  }
+
+  return collisions;
+}
+
+export function formatKeyCollision(collision: KeyCollision) {
+  return `${collision.type} collision in ${collision.fileName} (${collision.language}) between "${collision.key}" and "${collision.conflictingKey}"${collision.sources.length ? ` from ${collision.sources.join(', ')}` : ''}`;
+}
@@ -0,0 +1,83 @@
+import type { GeneratedSchema, PackageSummary, ParsedSchemaWithRef } from '@pentops/jsonapi-jdef-ts-generator';
+import { match, P } from 'ts-pattern';
+import { sortByKey } from '@pentops/sort-helpers';
+import { type I18nPluginTranslationContext, joinKeySegments, type Translation } from './helpers';
+import { getSchemaFullGrpcName } from './migrations';
+
+/**
+ * Common translations are written to the default namespace file, `schemaName` sources are the schemas named by
+ * defined `any` values and polymorph members, `packageLabel` sources are the labels of the packages schemas belong to.
+ */
+export type I18nPluginCommonTranslationSource =
+  | { type: 'schemaName'; fullGrpcName: string; schema: GeneratedSchema }
+  | { type: 'packageLabel'; package: PackageSummary };
+
+export type I18nPluginCommonTranslationPathGetter = (
+  source: I18nPluginCommonTranslationSource,
+  context: I18nPluginTranslationContext,
+) => string | undefined;
+
+// defaultCommonTranslationPathOrGetter writes each full gRPC or package name as a single key segment, with its dots escaped
+export const defaultCommonTranslationPathOrGetter: I18nPluginCommonTranslationPathGetter = (source) =>
+  match(source)
+    .with({ type: 'schemaName' }, (s) => joinKeySegments('schema', s.fullGrpcName))
+    .with({ type: 'packageLabel' }, (s) => joinKeySegments('package', s.package.package))
+    .exhaustive();
+
+export type I18nPluginCommonTranslationWriter = (
+  source: I18nPluginCommonTranslationSource,
+  path: string,
+  context: I18nPluginTranslationContext,
+) => Translation[] | undefined;
+
+export const defaultCommonTranslationWriter: I18nPluginCommonTranslationWriter = (source, path) =>
+  match(source)
+    .with({ type: 'schemaName' }, (s) => [{ key: path, value: s.schema.generatedName, source: s.schema }])
+    .with({ type: 'packageLabel' }, (s) => (s.package.label ? [{ key: path, value: s.package.label }] : []))
+    .exhaustive();
+
+function collectDefinedTypeNames(schema: ParsedSchemaWithRef, names: Set<string>) {
+  match(schema)
+    .with({ any: P.not(P.nullish) }, (s) => {
+      s.any.onlyDefinedTypes?.forEach((name) => names.add(name));
+      s.any.properties?.forEach((properties) => properties.forEach((property) => collectDefinedTypeNames(property.schema, names)));
+    })
+    .with({ polymorph: P.not(P.nullish) }, (s) => s.polymorph.members?.forEach((name) => names.add(name)))
+    .with({ object: P.not(P.nullish) }, (s) => s.object.properties.forEach((property) => collectDefinedTypeNames(property.schema, names)))
+    .with({ oneOf: P.not(P.nullish) }, (s) => s.oneOf.properties.forEach((property) => collectDefinedTypeNames(property.schema, names)))
+    .with({ array: P.not(P.nullish) }, (s) => collectDefinedTypeNames(s.array.itemSchema, names))
+    .with({ map: P.not(P.nullish) }, (s) => collectDefinedTypeNames(s.map.itemSchema, names))
+    .otherwise(() => undefined);
+}
+
+// collectCommonTranslationSources gathers the schemas named by defined any values and polymorphs, and the labelled packages of generated schemas
+export function collectCommonTranslationSources(generatedSchemas: Map<string, GeneratedSchema>, packageLabels: boolean) {
+  const definedTypeNames = new Set<string>();
+  const packages = new Map<string, PackageSummary>();
+
+  for (const [, schema] of generatedSchemas) {
+    collectDefinedTypeNames(schema.rawSchema, definedTypeNames);
+
+    if (packageLabels && schema.parentPackage?.label) {
+      packages.set(schema.parentPackage.package, schema.parentPackage);
+    }
+  }
+
+  const sources: I18nPluginCommonTranslationSource[] = [];
+
+  for (const fullGrpcName of sortByKey(Array.from(definedTypeNames), (name) => name)) {
+    const schema =
+      generatedSchemas.get(fullGrpcName) ||
+      Array.from(generatedSchemas.values()).find((generatedSchema) => getSchemaFullGrpcName(generatedSchema) === fullGrpcName);
+
+    if (schema) {
+      sources.push({ type: 'schemaName', fullGrpcName, schema });
+    }
+  }
+
+  for (const pkg of sortByKey(Array.from(packages.values()), (p) => p.package)) {
+    sources.push({ type: 'packageLabel', package: pkg });
+  }
+
+  return sources;
+}
@@ -0,0 +1,229 @@
+import JSON5 from 'json5';
+import setWith from 'lodash.setwith';
+import { Document, isScalar, parse as parseYaml } from 'yaml';
+import { gatherTranslations, getDisplayKey, type I18nPluginTranslationContext, parseExistingValue, splitKey, type Translation } from './helpers';
+
+// I18nPluginKeyStyle is `nested` to expand keys into nested objects, or `flat` for files used with i18next's `keySeparator: false`
+export type I18nPluginKeyStyle = 'nested' | 'flat';
+
+export interface I18nPluginFileFormatContext extends I18nPluginTranslationContext {
+  keyStyle: I18nPluginKeyStyle;
+  sourceLanguage: string;
+  // sourceTranslations are the final source language translations, for formats that pair source and target values
+  sourceTranslations: Map<string, Translation>;
+}
+
+/**
+ * A file format serializes the final translations for a file, and parses existing file content back into translations.
+ * Translations are passed to `serialize` sorted by key, with descriptions attached when `descriptions` is set to `comments`.
+ */
+export interface I18nPluginFileFormat {
+  name: string;
+  serialize: (translations: Translation[], context: I18nPluginFileFormatContext) => string;
+  parse: (content: string) => Map<string, Translation>;
+  // parseTolerant is used by the tolerant parse failure policy when parse fails
+  parseTolerant?: (content: string) => Map<string, Translation>;
+}
+
+/**
+ * Returns the path a key is written to in a nested translation object. A key nested beneath another translation's value
+ * (a leaf/branch collision) is written under the leaf's parent as one key joining the remaining segments with dots, which
+ * i18next still resolves, and which is parsed back into the same key.
+ */
+export function getNestedTranslationPath(content: Record<string, unknown>, key: string): string[] {
+  const segments = splitKey(key);
+  let node: unknown = content;
+
+  for (const [i, segment] of segments.slice(0, -1).entries()) {
+    node = node && typeof node === 'object' ? (node as Record<string, unknown>)[segment] : undefined;
+
+    if (typeof node === 'string') {
+      return [...segments.slice(0, i), segments.slice(i).join('.')];
+    }
+  }
+
+  return segments;
+}
+
+// Translations are expected sorted by key, so leaves are set before any keys nested beneath them
+export function buildNestedTranslationObject(translations: Translation[]) {
+  const content: Record<string, any> = {};
+
+  for (const translation of translations) {
+    setWith(content, getNestedTranslationPath(content, translation.key), translation.value, Object);
+  }
+
+  return content;
+}
+
+export function buildTranslationObject(translations: Translation[], keyStyle: I18nPluginKeyStyle) {
+  return keyStyle === 'flat'
+    ? Object.fromEntries(translations.map((translation) => [getDisplayKey(translation.key), translation.value]))
+    : buildNestedTranslationObject(translations);
+}
+
+// Both nested and flat existing files are parsed into the same translations, so files can be migrated between key styles
+export const jsonFileFormat: I18nPluginFileFormat = {
+  name: 'json',
+  serialize: (translations, context) => JSON.stringify(buildTranslationObject(translations, context.keyStyle), null, 2),
+  parse: (content) => gatherTranslations(parseExistingValue(content)),
+  parseTolerant: (content) => gatherTranslations(JSON5.parse(content)),
+};
+
+export const yamlFileFormat: I18nPluginFileFormat = {
+  name: 'yaml',
+  serialize: (translations, context) => {
+    const content = buildTranslationObject(translations, context.keyStyle);
+    const doc = new Document(content);
+
+    for (const translation of translations) {
+      const path = context.keyStyle === 'flat' ? [getDisplayKey(translation.key)] : getNestedTranslationPath(content, translation.key);
+      const node = translation.description ? doc.getIn(path, true) : undefined;
+
+      if (isScalar(node)) {
+        node.comment = ` ${translation.description}`;
+      }
+    }
+
+    return doc.toString();
+  },
+  parse: (content) => {
+    try {
+      return gatherTranslations(parseYaml(content) || undefined);
+    } catch (e) {
+      throw new Error(`I18nPlugin: failed to parse existing YAML value: ${content}. ${e}`, { cause: e });
+    }
+  },
+};
+
+function escapePoString(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t');
+}
+
+function unescapePoString(value: string) {
+  return value.replace(/\\(.)/g, (_, char: string) => ({ n: '\n', t: '\t' })[char] ?? char);
+}
+
+/**
+ * Gettext PO, with the translation key as `msgctxt`, the source language value as `msgid` and the file's value as `msgstr`.
+ * Descriptions are written as extracted comments.
+ */
+export const poFileFormat: I18nPluginFileFormat = {
+  name: 'po',
+  serialize: (translations, context) => {
+    const entries = [
+      ['msgid ""', 'msgstr ""', `"Language: ${escapePoString(context.language)}\\n"`, '"Content-Type: text/plain; charset=UTF-8\\n"'].join('\n'),
+    ];
+
+    for (const translation of translations) {
+      const sourceValue = context.sourceTranslations.get(translation.key)?.value ?? translation.value;
+
+      entries.push(
+        [
+          ...(translation.description ? translation.description.split('\n').map((line) => `#. ${line}`) : []),
+          `msgctxt "${escapePoString(translation.key)}"`,
+          `msgid "${escapePoString(sourceValue)}"`,
+          `msgstr "${escapePoString(translation.value)}"`,
+        ].join('\n'),
+      );
+    }
+
+    return `${entries.join('\n\n')}\n`;
+  },
+  parse: (content) => {
+    const translations = new Map<string, Translation>();
+    let entry: Record<string, string> = {};
+    let currentField: string | undefined;
+
+    const commitEntry = () => {
+      if (entry.msgctxt !== undefined && entry.msgstr !== undefined) {
+        translations.set(entry.msgctxt, { key: entry.msgctxt, value: entry.msgstr });
+      }
+
+      entry = {};
+      currentField = undefined;
+    };
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      const fieldMatch = line.match(/^(msgctxt|msgid|msgstr)\s+"(.*)"$/);
+      const continuationMatch = line.match(/^"(.*)"$/);
+
+      if (!line) {
+        commitEntry();
+      } else if (fieldMatch) {
+        if (fieldMatch[1] === 'msgctxt' || (fieldMatch[1] === 'msgid' && entry.msgstr !== undefined)) {
+          commitEntry();
+        }
+
+        currentField = fieldMatch[1]!;
+        entry[currentField] = unescapePoString(fieldMatch[2]!);
+      } else if (continuationMatch && currentField) {
+        entry[currentField] += unescapePoString(continuationMatch[1]!);
+      }
+    }
+
+    commitEntry();
+
+    return translations;
+  },
+};
+
+function escapeXml(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+function unescapeXml(value: string) {
+  return value.replace(/&(amp|lt|gt|quot|apos);/g, (_, entity: string) => ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" })[entity]!);
+}
+
+/**
+ * XLIFF 2.0, with a unit per translation key. Target language files pair the source language value with the file's value
+ * as the target, source language files only include sources. Descriptions are written as notes.
+ */
+export const xliffFileFormat: I18nPluginFileFormat = {
+  name: 'xliff',
+  serialize: (translations, context) => {
+    const isSourceLanguage = context.language === context.sourceLanguage;
+
+    const units = translations.map((translation) => {
+      const sourceValue = isSourceLanguage ? translation.value : (context.sourceTranslations.get(translation.key)?.value ?? translation.value);
+
+      return [
+        `    <unit id="${escapeXml(translation.key)}">`,
+        ...(translation.description ? ['      <notes>', `        <note>${escapeXml(translation.description)}</note>`, '      </notes>'] : []),
+        '      <segment>',
+        `        <source>${escapeXml(sourceValue)}</source>`,
+        ...(isSourceLanguage ? [] : [`        <target>${escapeXml(translation.value)}</target>`]),
+        '      </segment>',
+        '    </unit>',
+      ].join('\n');
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${escapeXml(context.sourceLanguage)}"${isSourceLanguage ? '' : ` trgLang="${escapeXml(context.language)}"`}>`,
+      `  <file id="${escapeXml(context.namespace)}">`,
+      ...units,
+      '  </file>',
+      '</xliff>',
+      '',
+    ].join('\n');
+  },
+  parse: (content) => {
+    const translations = new Map<string, Translation>();
+    const hasTarget = /<xliff\b[^>]*\btrgLang=/.test(content);
+
+    for (const [, id, unitContent] of content.matchAll(/<unit\b[^>]*\bid="([^"]*)"[^>]*>([\s\S]*?)<\/unit>/g)) {
+      const valueMatch = unitContent!.match(hasTarget ? /<target\b[^>]*>([\s\S]*?)<\/target>/ : /<source\b[^>]*>([\s\S]*?)<\/source>/);
+
+      if (valueMatch) {
+        const key = unescapeXml(id!);
+
+        translations.set(key, { key, value: unescapeXml(valueMatch[1]!) });
+      }
+    }
+
+    return translations;
+  },
+};
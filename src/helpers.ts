@@ -1,23 +1,88 @@
 import { factory } from 'typescript';
-import { createObjectLiteral, type GeneratedSchema } from '@pentops/jsonapi-jdef-ts-generator';
+import {
+  createObjectLiteral,
+  type GeneratedClientFunction,
+  type GeneratedSchema,
+  type ParsedObjectProperty,
+} from '@pentops/jsonapi-jdef-ts-generator';
 import { match, P } from 'ts-pattern';
-import { camelCase } from 'change-case';
+import { camelCase, pascalCase } from 'change-case';
 import type { Resource, ResourceLanguage } from 'i18next';
 import { I18nPluginFile } from './plugin-file';
+import { formatSchemaValueName, formatValueName, type I18nPluginValueFormatterConfig } from './value-formatters';
 
 export const I18NEXT_IMPORT_PATH = 'i18next';
 export const I18NEXT_DEFAULT_EXPORT_NAME = 'i18n';
 export const I18NEXT_INIT_FUNCTION_NAME = 'init';
 export const I18NEXT_USE_FUNCTION_NAME = 'use';
+export const I18NEXT_CUSTOM_TYPE_OPTIONS_INTERFACE_NAME = 'CustomTypeOptions';
 
 export const I18N_INIT_OPTS_VAR_NAME = 'i18nOpts';
 export const I18N_NAMESPACES_TYPE_NAME = 'I18nNamespaces';
+export const I18N_DESCRIPTION_KEY_SUFFIX = '_description';
 
 export interface Translation {
-  // JSON dot notation
+  // JSON dot notation, with dots and backslashes within a segment escaped by a backslash (see `escapeKeySegment`)
   key: string;
   value: string;
   source?: GeneratedSchema;
+  clientFunctionSource?: GeneratedClientFunction;
+  // description is context for translators, taken from the schema where available
+  description?: string;
+  // variantOf is the key a plural or context variant was expanded from
+  variantOf?: string;
+}
+
+export function escapeKeySegment(segment: string) {
+  return segment.replace(/\\/g, '\\\\').replace(/\./g, '\\.');
+}
+
+export function joinKeySegments(...segments: string[]) {
+  return segments.map(escapeKeySegment).join('.');
+}
+
+export function splitKey(key: string): string[] {
+  const segments: string[] = [];
+  let segment = '';
+
+  for (let i = 0; i < key.length; i++) {
+    const char = key[i]!;
+
+    if (char === '\\' && i + 1 < key.length) {
+      segment += key[++i];
+    } else if (char === '.') {
+      segments.push(segment);
+      segment = '';
+    } else {
+      segment += char;
+    }
+  }
+
+  segments.push(segment);
+
+  return segments;
+}
+
+// getDisplayKey returns the key as used with i18next, which resolves segments containing dots when looking up nested keys
+export function getDisplayKey(key: string) {
+  return splitKey(key).join('.');
+}
+
+/**
+ * Existing keys are re-keyed to the matching new key when they only differ by escaping, e.g. flat files, where segments
+ * containing dots can't be told apart from nested segments.
+ */
+export function reconcileExistingTranslationKeys(existingValues: Map<string, Translation>, newValues: Map<string, Translation>) {
+  const newKeysByDisplayKey = new Map(Array.from(newValues.keys()).map((key) => [getDisplayKey(key), key]));
+  const reconciled = new Map<string, Translation>();
+
+  for (const [key, translation] of existingValues) {
+    const newKey = newValues.has(key) ? key : (newKeysByDisplayKey.get(getDisplayKey(key)) ?? key);
+
+    reconciled.set(newKey, { ...translation, key: newKey });
+  }
+
+  return reconciled;
 }
 
 export interface ProspectiveTranslation {
@@ -25,6 +90,7 @@ export interface ProspectiveTranslation {
   newValue: string | undefined;
   existingValue: string | undefined;
   source?: GeneratedSchema;
+  clientFunctionSource?: GeneratedClientFunction;
 }
 
 export function buildProspectiveTranslations(
@@ -43,49 +109,189 @@ export function buildProspectiveTranslations(
       newValue: newValue?.value,
       existingValue: existingValue?.value,
       source: newValue?.source || existingValue?.source,
+      clientFunctionSource: newValue?.clientFunctionSource || existingValue?.clientFunctionSource,
     });
   }
 
   return prospects;
 }
 
+// withProspectSources carries the prospect's sources onto the translation it was resolved to, where the resolver left them out
+export function withProspectSources(translation: Translation, prospect: ProspectiveTranslation): Translation {
+  return {
+    ...translation,
+    source: translation.source ?? prospect.source,
+    clientFunctionSource: translation.clientFunctionSource ?? prospect.clientFunctionSource,
+  };
+}
+
 export type NamespaceWriter = (file: I18nPluginFile) => string;
 
-export const defaultNamespaceWriter: NamespaceWriter = (file) => camelCase(file.config.fileName.replace('.json', ''));
+export function getFileNameWithoutExtension(fileName: string) {
+  return fileName.replace(/\.[^.]+$/, '');
+}
 
-export type I18nPluginTranslationWriter = (schema: GeneratedSchema, schemaPath: string) => Translation[] | undefined;
+export const defaultNamespaceWriter: NamespaceWriter = (file) => camelCase(getFileNameWithoutExtension(file.config.fileName));
 
-export const defaultSchemaTranslationWriter: I18nPluginTranslationWriter = (schema: GeneratedSchema, schemaPath: string): Translation[] | undefined =>
-  match(schema)
+export interface I18nPluginTranslationContext {
+  // existingTranslations are the translations parsed from the file's current content
+  existingTranslations: Map<string, Translation>;
+  file: I18nPluginFile;
+  language: string;
+  namespace: string;
+}
+
+export type I18nPluginTranslationWriter = (
+  schema: GeneratedSchema,
+  schemaPath: string,
+  context: I18nPluginTranslationContext,
+) => Translation[] | undefined;
+
+export interface SchemaTranslationValue {
+  name: string;
+  description?: string;
+}
+
+export function getSchemaTranslationValues(schema: GeneratedSchema): SchemaTranslationValue[] | undefined {
+  return match(schema)
     .with({ rawSchema: { oneOf: P.not(P.nullish) } }, (s) =>
-      Array.from(s.rawSchema.oneOf.properties.values()).map((property) => ({
-        key: `${schemaPath}.${property.name}`,
-        value: property.name,
-      })),
+      Array.from(s.rawSchema.oneOf.properties.values()).map((property) => ({ name: property.name, description: property.description })),
     )
     .with({ rawSchema: { polymorph: { members: P.not(P.nullish) } } }, (s) =>
-      Array.from(s.rawSchema.polymorph.members.values()).map((member) => ({
-        key: `${schemaPath}.${member}`,
-        value: member,
-      })),
+      Array.from(s.rawSchema.polymorph.members.values()).map((member) => ({ name: member })),
     )
     .with({ rawSchema: { enum: P.not(P.nullish) } }, (s) =>
-      s.rawSchema.enum.options.map((value) => ({
-        key: `${schemaPath}.${value.name}`,
-        value: value.name,
-      })),
+      s.rawSchema.enum.options.map((value) => ({ name: value.name, description: value.description })),
     )
     .otherwise(() => undefined);
+}
+
+export function getSchemaTranslationValueNames(schema: GeneratedSchema): string[] | undefined {
+  return getSchemaTranslationValues(schema)?.map((value) => value.name);
+}
+
+export type I18nPluginObjectPropertyLabelFormatter = (property: ParsedObjectProperty, schema: GeneratedSchema) => string;
+
+export interface I18nPluginObjectPropertyLabelsConfig {
+  /**
+   * `reference` only writes labels for the object's own properties, objects referenced by properties get their own section.
+   * `inline` also writes labels for properties of inline object schemas, in a section named for the parent object and property.
+   */
+  nestedObjects?: 'reference' | 'inline';
+  valueFormatter?: I18nPluginObjectPropertyLabelFormatter;
+}
+
+export const defaultObjectPropertyLabelFormatter: I18nPluginObjectPropertyLabelFormatter = (property) => property.name;
+
+// getValueFormattingConfig returns the file's value formatter config, or undefined when values are written as raw names
+export function getValueFormattingConfig(context: I18nPluginTranslationContext): I18nPluginValueFormatterConfig | undefined {
+  const { valueFormatting } = context.file.config;
+
+  return valueFormatting === true ? {} : valueFormatting || undefined;
+}
+
+function writeObjectPropertyTranslations(
+  schema: GeneratedSchema,
+  properties: Map<string, ParsedObjectProperty>,
+  schemaPath: string,
+  config: I18nPluginObjectPropertyLabelsConfig,
+  valueFormatting: I18nPluginValueFormatterConfig | undefined,
+): Translation[] {
+  const {
+    nestedObjects = 'reference',
+    valueFormatter = valueFormatting
+      ? (property: ParsedObjectProperty) => formatValueName(property.name, valueFormatting)
+      : defaultObjectPropertyLabelFormatter,
+  } = config;
+
+  return Array.from(properties.values()).flatMap((property) => {
+    const translation: Translation = {
+      key: `${schemaPath}.${escapeKeySegment(property.name)}`,
+      value: valueFormatter(property, schema),
+      description: property.description,
+    };
+
+    return match(property.schema)
+      .with({ object: { properties: P.not(P.nullish) } }, (nested) =>
+        nestedObjects === 'inline'
+          ? [
+              translation,
+              ...writeObjectPropertyTranslations(
+                schema,
+                nested.object.properties,
+                `${schemaPath}${escapeKeySegment(pascalCase(property.name))}`,
+                config,
+                valueFormatting,
+              ),
+            ]
+          : [translation],
+      )
+      .otherwise(() => [translation]);
+  });
+}
+
+export const defaultSchemaTranslationWriter: I18nPluginTranslationWriter = (
+  schema: GeneratedSchema,
+  schemaPath: string,
+  context: I18nPluginTranslationContext,
+): Translation[] | undefined =>
+  match(schema)
+    .with({ rawSchema: { object: P.not(P.nullish) } }, (s) => {
+      const { objectPropertyLabels } = context.file.config;
+
+      return objectPropertyLabels
+        ? writeObjectPropertyTranslations(
+            s,
+            s.rawSchema.object.properties,
+            schemaPath,
+            objectPropertyLabels === true ? {} : objectPropertyLabels,
+            getValueFormattingConfig(context),
+          )
+        : undefined;
+    })
+    .otherwise(() => {
+      const valueFormatting = getValueFormattingConfig(context);
+
+      return getSchemaTranslationValues(schema)?.map(({ name, description }) => ({
+        key: `${schemaPath}.${escapeKeySegment(name)}`,
+        value: valueFormatting ? formatSchemaValueName(schema, name, valueFormatting) : name,
+        description,
+      }));
+    });
 
-export type I18nPluginTranslationPathGetter = (schema: GeneratedSchema) => string | undefined;
+export type I18nPluginTranslationPathGetter = (schema: GeneratedSchema, context: I18nPluginTranslationContext) => string | undefined;
 
-export const defaultTranslationPathOrGetter: I18nPluginTranslationPathGetter = (schema: GeneratedSchema): string | undefined =>
+export const defaultTranslationPathOrGetter: I18nPluginTranslationPathGetter = (
+  schema: GeneratedSchema,
+  context: I18nPluginTranslationContext,
+): string | undefined =>
   match(schema)
-    .with({ rawSchema: { oneOf: P.not(P.nullish) } }, () => `oneOf.${schema.generatedName}`)
-    .with({ rawSchema: { enum: P.not(P.nullish) } }, () => `enum.${schema.generatedName}`)
-    .with({ rawSchema: { polymorph: P.not(P.nullish) } }, () => `polymorph.${schema.generatedName}`)
+    .with({ rawSchema: { oneOf: P.not(P.nullish) } }, () => joinKeySegments('oneOf', schema.generatedName))
+    .with({ rawSchema: { enum: P.not(P.nullish) } }, () => joinKeySegments('enum', schema.generatedName))
+    .with({ rawSchema: { polymorph: P.not(P.nullish) } }, () => joinKeySegments('polymorph', schema.generatedName))
+    .with({ rawSchema: { object: P.not(P.nullish) } }, () =>
+      context.file.config.objectPropertyLabels ? joinKeySegments('object', schema.generatedName) : undefined,
+    )
     .otherwise(() => undefined);
 
+export type I18nPluginMethodTranslationPathGetter = (
+  clientFunction: GeneratedClientFunction,
+  context: I18nPluginTranslationContext,
+) => string | undefined;
+
+export const defaultMethodTranslationPathOrGetter: I18nPluginMethodTranslationPathGetter = (clientFunction) =>
+  joinKeySegments('method', clientFunction.generatedName);
+
+export type I18nPluginMethodTranslationWriter = (
+  clientFunction: GeneratedClientFunction,
+  methodPath: string,
+  context: I18nPluginTranslationContext,
+) => Translation[] | undefined;
+
+export const defaultMethodTranslationWriter: I18nPluginMethodTranslationWriter = (clientFunction, methodPath) => [
+  { key: methodPath, value: clientFunction.method.rawMethod.name },
+];
+
 /**
  * The `Translation` value returned will be used to replace the existing value.
  * Return null to exclude the translation altogether. If newValue is undefined, a translation that wasn't translated
@@ -94,6 +300,7 @@ export const defaultTranslationPathOrGetter: I18nPluginTranslationPathGetter = (
 export type I18nPluginConflictHandler = (
   prospectiveTranslation: ProspectiveTranslation,
   prospects: Map<string, ProspectiveTranslation>,
+  context: I18nPluginTranslationContext,
 ) => Translation | null;
 
 export const defaultConflictHandler: I18nPluginConflictHandler = (prospect) => {
@@ -108,6 +315,68 @@ export const defaultConflictHandler: I18nPluginConflictHandler = (prospect) => {
     .otherwise(() => null);
 };
 
+/**
+ * Determines what happens to a translation that exists in a file but wasn't generated in the current pass.
+ * `keep` retains the existing value, `remove` drops it, and a function can return a replacement `Translation` (or null to drop it).
+ */
+export type I18nPluginUnmatchedTranslationHandler = 'keep' | 'remove' | ((translation: Translation) => Translation | null);
+
+export function resolveUnmatchedTranslation(handler: I18nPluginUnmatchedTranslationHandler, translation: Translation): Translation | null {
+  return match(handler)
+    .returnType<Translation | null>()
+    .with('keep', () => translation)
+    .with('remove', () => null)
+    .otherwise((handlerFn) => handlerFn(translation));
+}
+
+/**
+ * Determines how translations generated for the source language are seeded into target language files. `copy` uses the
+ * source language value, `empty` writes an empty string, `omit` leaves the key out, and a function can return the seeded
+ * `Translation` (or null to omit it). Values already translated in the target language are never replaced.
+ */
+export type I18nPluginTargetLanguageSeeder =
+  | 'copy'
+  | 'empty'
+  | 'omit'
+  | ((sourceTranslation: Translation, context: I18nPluginTranslationContext) => Translation | null);
+
+export function seedTargetLanguageTranslation(
+  seeder: I18nPluginTargetLanguageSeeder,
+  sourceTranslation: Translation,
+  context: I18nPluginTranslationContext,
+): Translation | null {
+  return match(seeder)
+    .returnType<Translation | null>()
+    .with('copy', () => sourceTranslation)
+    .with('empty', () => ({ ...sourceTranslation, value: '' }))
+    .with('omit', () => null)
+    .otherwise((seederFn) => seederFn(sourceTranslation, context));
+}
+
+// buildDescriptionTranslations creates `<key>_description` sibling translations for translations with a description
+export function buildDescriptionTranslations(translations: Map<string, Translation>): Map<string, Translation> {
+  const descriptionTranslations = new Map<string, Translation>();
+
+  for (const [key, translation] of translations) {
+    if (translation.description) {
+      // Variants share a single description for the key they were expanded from
+      const descriptionKey = `${translation.variantOf ?? key}${I18N_DESCRIPTION_KEY_SUFFIX}`;
+
+      descriptionTranslations.set(descriptionKey, { key: descriptionKey, value: translation.description, source: translation.source });
+    }
+  }
+
+  return descriptionTranslations;
+}
+
+export function getFileLanguage(file: I18nPluginFile): string {
+  if (!file.config.language) {
+    throw new Error(`I18nPlugin: no language was resolved for file ${file.config.fileName}`);
+  }
+
+  return file.config.language;
+}
+
 export function parseExistingValue(value: string | undefined): ResourceLanguage | undefined {
   if (!value) {
     return undefined;
@@ -116,7 +385,7 @@ export function parseExistingValue(value: string | undefined): ResourceLanguage
   try {
     return JSON.parse(value);
   } catch (e) {
-    throw new Error(`I18nPlugin: failed to parse existing value: ${value}. ${e}`);
+    throw new Error(`I18nPlugin: failed to parse existing value: ${value}. ${e}`, { cause: e });
   }
 }
 
@@ -127,10 +396,19 @@ export function gatherTranslations(fileData: ResourceLanguage | undefined) {
     return translations;
   }
 
+  // Files with only string values at the top level are flat, and their keys are used as they are
+  if (Object.values(fileData).every((value) => typeof value === 'string')) {
+    for (const [key, value] of Object.entries(fileData)) {
+      translations.set(key, { key, value: value as string });
+    }
+
+    return translations;
+  }
+
   const gather = (data: string | Record<string, any>, path: string = '') => {
     if (typeof data === 'object') {
       for (const [key, value] of Object.entries(data)) {
-        gather(value, path ? `${path}.${key}` : key);
+        gather(value, path ? `${path}.${escapeKeySegment(key)}` : escapeKeySegment(key));
       }
     } else {
       translations.set(path, { key: path, value: data });
@@ -142,30 +420,33 @@ export function gatherTranslations(fileData: ResourceLanguage | undefined) {
   return translations;
 }
 
+// createPropertyName returns an identifier for names that are valid identifiers, and a quoted string literal otherwise
+export function createPropertyName(name: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? factory.createIdentifier(name) : factory.createStringLiteral(name, true);
+}
+
 export function buildResourcesObjectLiteral(providedResources: Resource, generatedResources: Record<string, Record<string, string>>) {
-  const mergedResources: Record<string, Record<string, string | object>> = {};
   const allLanguages = Array.from(new Set(Object.keys(providedResources).concat(Object.keys(generatedResources))));
 
-  for (const language of allLanguages) {
-    const provided = providedResources[language] || {};
-    const generated = generatedResources[language] || {};
-    const allNamespaces = Array.from(new Set(Object.keys(provided).concat(Object.keys(generated))));
+  // Language and namespace keys (e.g. en-XA) aren't always valid identifiers, so they're quoted where needed
+  return factory.createObjectLiteralExpression(
+    allLanguages.map((language) => {
+      const provided = providedResources[language] || {};
+      const generated = generatedResources[language] || {};
+      const allNamespaces = Array.from(new Set(Object.keys(provided).concat(Object.keys(generated))));
 
-    if (!mergedResources[language]) {
-      mergedResources[language] = {};
-    }
-
-    for (const namespace of allNamespaces) {
-      const value = match({ provided: provided[namespace], generated: generated[namespace] })
-        .with({ generated: P.not(undefined) }, ({ generated: g }) => factory.createIdentifier(g))
-        .with({ provided: P.not(undefined) }, ({ provided: p }) => p)
-        .otherwise(() => undefined);
+      const namespaceProperties = allNamespaces.flatMap((namespace) => {
+        const value = match({ provided: provided[namespace], generated: generated[namespace] })
+          .with({ generated: P.not(undefined) }, ({ generated: g }) => factory.createIdentifier(g))
+          .with({ provided: P.string }, ({ provided: p }) => factory.createStringLiteral(p, true))
+          .with({ provided: P.not(undefined) }, ({ provided: p }) => createObjectLiteral(p))
+          .otherwise(() => undefined);
 
-      if (value) {
-        mergedResources[language][namespace] = value;
-      }
-    }
-  }
+        return value ? [factory.createPropertyAssignment(createPropertyName(namespace), value)] : [];
+      });
 
-  return createObjectLiteral(mergedResources);
+      return factory.createPropertyAssignment(createPropertyName(language), factory.createObjectLiteralExpression(namespaceProperties, true));
+    }),
+    true,
+  );
 }
@@ -1,4 +1,19 @@
+export * from './check';
+export * from './collisions';
+export * from './common-translations';
+export * from './formats';
 export * from './helpers';
+export * from './label-helpers';
+export * from './lazy-resources';
+export * from './migrations';
+export * from './namespace-accessors';
+export * from './orphans';
+export * from './parse-failures';
 export * from './plugin';
 export * from './plugin-file';
+export * from './presets';
+export * from './pseudo-locale';
+export * from './source-metadata';
 export * from './state';
+export * from './value-formatters';
+export * from './variants';
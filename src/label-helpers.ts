@@ -0,0 +1,97 @@
+import ts, { factory } from 'typescript';
+import type { GeneratedSchema } from '@pentops/jsonapi-jdef-ts-generator';
+import { camelCase, pascalCase } from 'change-case';
+import { match, P } from 'ts-pattern';
+import { createPropertyName } from './helpers';
+
+export const I18NEXT_T_FUNCTION_TYPE_NAME = 'TFunction';
+
+export interface LabelHelperSchema {
+  schema: GeneratedSchema;
+  namespace: string;
+  // keys maps each enum value, oneOf property or polymorph member to its translation key
+  keys: Record<string, string>;
+}
+
+// getLabelHelperValueTypeName returns the generated type that label helper values are tied to, if there is one
+export function getLabelHelperValueTypeName(schema: GeneratedSchema): string | undefined {
+  return match(schema)
+    .with({ rawSchema: { enum: P.not(P.nullish) } }, (s) => s.generatedName)
+    .with({ rawSchema: { oneOf: P.not(P.nullish) }, derivedOneOfTypeEnum: { generatedName: P.string } }, (s) => s.derivedOneOfTypeEnum.generatedName)
+    .otherwise(() => undefined);
+}
+
+export function getLabelHelperKeyMapName(schema: GeneratedSchema) {
+  return camelCase(`${schema.generatedName}TranslationKeys`);
+}
+
+export function getLabelHelperFunctionName(schema: GeneratedSchema) {
+  return `get${pascalCase(schema.generatedName)}Label`;
+}
+
+/**
+ * Builds a const map of values to translation keys and a `getXLabel(value, t)` function for the schema. When the schema
+ * has a generated type, the map must satisfy a record of that type, so the generated type and keys can't drift apart.
+ */
+export function buildLabelHelperNodes({ schema, namespace, keys }: LabelHelperSchema): ts.Node[] {
+  const keyMapName = getLabelHelperKeyMapName(schema);
+  const valueTypeName = getLabelHelperValueTypeName(schema);
+
+  const keyMapLiteral = factory.createAsExpression(
+    factory.createObjectLiteralExpression(
+      Object.entries(keys).map(([value, key]) => factory.createPropertyAssignment(createPropertyName(value), factory.createStringLiteral(key, true))),
+      true,
+    ),
+    factory.createTypeReferenceNode('const'),
+  );
+
+  const valueType = valueTypeName
+    ? factory.createTypeReferenceNode(valueTypeName)
+    : factory.createTypeOperatorNode(ts.SyntaxKind.KeyOfKeyword, factory.createTypeQueryNode(factory.createIdentifier(keyMapName)));
+
+  return [
+    factory.createVariableStatement(
+      [factory.createModifier(ts.SyntaxKind.ExportKeyword)],
+      factory.createVariableDeclarationList(
+        [
+          factory.createVariableDeclaration(
+            keyMapName,
+            undefined,
+            undefined,
+            valueTypeName
+              ? factory.createSatisfiesExpression(
+                  keyMapLiteral,
+                  factory.createTypeReferenceNode('Record', [valueType, factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword)]),
+                )
+              : keyMapLiteral,
+          ),
+        ],
+        ts.NodeFlags.Const,
+      ),
+    ),
+    factory.createIdentifier('\n'),
+    factory.createFunctionDeclaration(
+      [factory.createModifier(ts.SyntaxKind.ExportKeyword)],
+      undefined,
+      getLabelHelperFunctionName(schema),
+      undefined,
+      [
+        factory.createParameterDeclaration(undefined, undefined, 'value', undefined, valueType),
+        factory.createParameterDeclaration(undefined, undefined, 't', undefined, factory.createTypeReferenceNode(I18NEXT_T_FUNCTION_TYPE_NAME)),
+      ],
+      factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+      factory.createBlock(
+        [
+          factory.createReturnStatement(
+            factory.createCallExpression(factory.createIdentifier('t'), undefined, [
+              factory.createElementAccessExpression(factory.createIdentifier(keyMapName), factory.createIdentifier('value')),
+              factory.createObjectLiteralExpression([factory.createPropertyAssignment('ns', factory.createStringLiteral(namespace, true))]),
+            ]),
+          ),
+        ],
+        true,
+      ),
+    ),
+    factory.createIdentifier('\n'),
+  ];
+}
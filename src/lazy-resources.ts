@@ -0,0 +1,223 @@
+import ts, { factory } from 'typescript';
+import { createPropertyName } from './helpers';
+
+export const I18N_RESOURCE_LOADERS_VAR_NAME = 'i18nResourceLoaders';
+export const I18N_RESOURCES_BACKEND_VAR_NAME = 'i18nResourcesBackend';
+export const I18N_LAZY_RESOURCES_TYPE_NAME = 'I18nLazyResources';
+export const I18NEXT_BACKEND_MODULE_TYPE_NAME = 'BackendModule';
+export const I18NEXT_RESOURCE_KEY_TYPE_NAME = 'ResourceKey';
+
+function createExportedConst(name: string, type: ts.TypeNode | undefined, initializer: ts.Expression) {
+  return factory.createVariableStatement(
+    [factory.createModifier(ts.SyntaxKind.ExportKeyword)],
+    factory.createVariableDeclarationList([factory.createVariableDeclaration(name, undefined, type, initializer)], ts.NodeFlags.Const),
+  );
+}
+
+function createCallbackCall(...args: ts.Expression[]) {
+  return factory.createExpressionStatement(factory.createCallExpression(factory.createIdentifier('callback'), undefined, args));
+}
+
+// buildLoadersObjectLiteral builds `{ [language]: { [namespace]: () => import(path) } }` from import paths by language and namespace
+function buildLoadersObjectLiteral(importPathsByLanguageAndNamespace: Record<string, Record<string, string>>) {
+  return factory.createObjectLiteralExpression(
+    Object.entries(importPathsByLanguageAndNamespace).map(([language, importPathsByNamespace]) =>
+      factory.createPropertyAssignment(
+        createPropertyName(language),
+        factory.createObjectLiteralExpression(
+          Object.entries(importPathsByNamespace).map(([namespace, importPath]) =>
+            factory.createPropertyAssignment(
+              createPropertyName(namespace),
+              factory.createArrowFunction(
+                undefined,
+                undefined,
+                [],
+                undefined,
+                factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+                factory.createCallExpression(factory.createToken(ts.SyntaxKind.ImportKeyword) as ts.Expression, undefined, [
+                  factory.createStringLiteral(importPath, true),
+                ]),
+              ),
+            ),
+          ),
+          true,
+        ),
+      ),
+    ),
+    true,
+  );
+}
+
+// buildLoadersRecordType is the loaders map widened to a record, so it can be indexed by any language and namespace
+function buildLoadersRecordType() {
+  const loaderType = factory.createFunctionTypeNode(
+    undefined,
+    [],
+    factory.createTypeReferenceNode('Promise', [
+      factory.createTypeLiteralNode([
+        factory.createPropertySignature(undefined, 'default', undefined, factory.createTypeReferenceNode(I18NEXT_RESOURCE_KEY_TYPE_NAME)),
+      ]),
+    ]),
+  );
+
+  return factory.createTypeReferenceNode('Partial', [
+    factory.createTypeReferenceNode('Record', [
+      factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+      factory.createTypeReferenceNode('Partial', [
+        factory.createTypeReferenceNode('Record', [factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword), loaderType]),
+      ]),
+    ]),
+  ]);
+}
+
+/**
+ * Builds a map of dynamic `import()` loaders by language and namespace, an i18next backend module that reads namespaces
+ * through them (in the style of `i18next-resources-to-backend`), and an `I18nLazyResources<Language>` type of the resources
+ * the loaders resolve to, so namespaces are only bundled into the chunks that use them.
+ */
+export function buildLazyResourceNodes(importPathsByLanguageAndNamespace: Record<string, Record<string, string>>): ts.Node[] {
+  const loadersType = factory.createTypeQueryNode(factory.createIdentifier(I18N_RESOURCE_LOADERS_VAR_NAME));
+  const languageType = factory.createTypeReferenceNode('TLanguage');
+  const namespaceType = factory.createTypeReferenceNode('TNamespace');
+
+  const readFunction = factory.createArrowFunction(
+    undefined,
+    undefined,
+    ['language', 'namespace', 'callback'].map((name) => factory.createParameterDeclaration(undefined, undefined, name)),
+    undefined,
+    factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+    factory.createBlock(
+      [
+        factory.createVariableStatement(
+          undefined,
+          factory.createVariableDeclarationList(
+            [
+              factory.createVariableDeclaration(
+                'loader',
+                undefined,
+                undefined,
+                factory.createElementAccessChain(
+                  factory.createElementAccessExpression(
+                    factory.createParenthesizedExpression(
+                      factory.createAsExpression(factory.createIdentifier(I18N_RESOURCE_LOADERS_VAR_NAME), buildLoadersRecordType()),
+                    ),
+                    factory.createIdentifier('language'),
+                  ),
+                  factory.createToken(ts.SyntaxKind.QuestionDotToken),
+                  factory.createIdentifier('namespace'),
+                ),
+              ),
+            ],
+            ts.NodeFlags.Const,
+          ),
+        ),
+        factory.createIfStatement(
+          factory.createPrefixUnaryExpression(ts.SyntaxKind.ExclamationToken, factory.createIdentifier('loader')),
+          factory.createBlock(
+            [createCallbackCall(factory.createNull(), factory.createObjectLiteralExpression()), factory.createReturnStatement()],
+            true,
+          ),
+        ),
+        factory.createExpressionStatement(
+          factory.createCallExpression(
+            factory.createPropertyAccessExpression(factory.createCallExpression(factory.createIdentifier('loader'), undefined, []), 'then'),
+            undefined,
+            [
+              factory.createArrowFunction(
+                undefined,
+                undefined,
+                [factory.createParameterDeclaration(undefined, undefined, 'resources')],
+                undefined,
+                factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+                factory.createCallExpression(factory.createIdentifier('callback'), undefined, [
+                  factory.createNull(),
+                  factory.createPropertyAccessExpression(factory.createIdentifier('resources'), 'default'),
+                ]),
+              ),
+              factory.createArrowFunction(
+                undefined,
+                undefined,
+                [factory.createParameterDeclaration(undefined, undefined, 'error')],
+                undefined,
+                factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+                factory.createCallExpression(factory.createIdentifier('callback'), undefined, [
+                  factory.createIdentifier('error'),
+                  factory.createFalse(),
+                ]),
+              ),
+            ],
+          ),
+        ),
+      ],
+      true,
+    ),
+  );
+
+  return [
+    createExportedConst(
+      I18N_RESOURCE_LOADERS_VAR_NAME,
+      undefined,
+      factory.createAsExpression(buildLoadersObjectLiteral(importPathsByLanguageAndNamespace), factory.createTypeReferenceNode('const')),
+    ),
+    factory.createIdentifier('\n'),
+    factory.createTypeAliasDeclaration(
+      [factory.createModifier(ts.SyntaxKind.ExportKeyword)],
+      I18N_LAZY_RESOURCES_TYPE_NAME,
+      [factory.createTypeParameterDeclaration(undefined, 'TLanguage', factory.createTypeOperatorNode(ts.SyntaxKind.KeyOfKeyword, loadersType))],
+      factory.createMappedTypeNode(
+        undefined,
+        factory.createTypeParameterDeclaration(
+          undefined,
+          'TNamespace',
+          factory.createTypeOperatorNode(ts.SyntaxKind.KeyOfKeyword, factory.createIndexedAccessTypeNode(loadersType, languageType)),
+        ),
+        undefined,
+        undefined,
+        factory.createConditionalTypeNode(
+          factory.createIndexedAccessTypeNode(factory.createIndexedAccessTypeNode(loadersType, languageType), namespaceType),
+          factory.createFunctionTypeNode(
+            undefined,
+            [],
+            factory.createTypeReferenceNode('Promise', [
+              factory.createTypeLiteralNode([
+                factory.createPropertySignature(
+                  undefined,
+                  'default',
+                  undefined,
+                  factory.createInferTypeNode(factory.createTypeParameterDeclaration(undefined, 'TResources')),
+                ),
+              ]),
+            ]),
+          ),
+          factory.createTypeReferenceNode('TResources'),
+          factory.createKeywordTypeNode(ts.SyntaxKind.NeverKeyword),
+        ),
+        undefined,
+      ),
+    ),
+    factory.createIdentifier('\n'),
+    createExportedConst(
+      I18N_RESOURCES_BACKEND_VAR_NAME,
+      factory.createTypeReferenceNode(I18NEXT_BACKEND_MODULE_TYPE_NAME),
+      factory.createObjectLiteralExpression(
+        [
+          factory.createPropertyAssignment('type', factory.createStringLiteral('backend', true)),
+          factory.createPropertyAssignment(
+            'init',
+            factory.createArrowFunction(
+              undefined,
+              undefined,
+              [],
+              undefined,
+              factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+              factory.createBlock([]),
+            ),
+          ),
+          factory.createPropertyAssignment('read', readFunction),
+        ],
+        true,
+      ),
+    ),
+    factory.createIdentifier('\n'),
+  ];
+}
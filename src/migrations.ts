@@ -0,0 +1,166 @@
+import type { GeneratedSchema } from '@pentops/jsonapi-jdef-ts-generator';
+import { match, P } from 'ts-pattern';
+import { getSchemaTranslationValueNames, I18N_DESCRIPTION_KEY_SUFFIX, splitKey, Translation } from './helpers';
+import type { I18nPluginState, WrittenTranslation } from './state';
+
+export interface I18nPluginMigrationsConfig {
+  // stateFileName is the generator state file the previous run's state is read from, defaults to the generator's configured state file
+  stateFileName?: string;
+}
+
+export interface TranslationMigration {
+  fileName: string;
+  namespace: string;
+  language: string;
+  fullGrpcName: string;
+  previousKey: string;
+  key: string;
+}
+
+interface TranslationSourceValues {
+  fullGrpcName: string;
+  valueNames: string[];
+  numbers?: Record<string, number>;
+}
+
+export function parsePreviousPluginState(value: string | undefined, pluginName: string): I18nPluginState | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(value).plugins?.[pluginName];
+  } catch (e) {
+    throw new Error(`I18nPlugin: failed to parse previous state: ${e}`);
+  }
+}
+
+/**
+ * Returns the translations the previous run wrote for a language and namespace. State written before translations were
+ * keyed by language and namespace is keyed by translation key alone, in which case all of its translations are returned.
+ */
+export function getPreviousWrittenTranslations(
+  previousState: I18nPluginState,
+  language: string,
+  namespace: string,
+): Record<string, WrittenTranslation> {
+  const translationsWritten: Record<string, unknown> = previousState.translationsWritten || {};
+  const translationsKeyedByTranslationKey = Object.values(translationsWritten).filter(isWrittenTranslation);
+
+  if (translationsKeyedByTranslationKey.length) {
+    return Object.fromEntries(translationsKeyedByTranslationKey.map((translation) => [translation.key, translation]));
+  }
+
+  return previousState.translationsWritten?.[language]?.[namespace] || {};
+}
+
+function isWrittenTranslation(value: unknown): value is WrittenTranslation {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'key' in value &&
+    typeof value.key === 'string' &&
+    'value' in value &&
+    typeof value.value === 'string'
+  );
+}
+
+function getWrittenTranslationSourceValues(translation: WrittenTranslation): TranslationSourceValues | undefined {
+  return match(translation.source)
+    .with({ enum: P.not(P.nullish) }, (s) => ({
+      fullGrpcName: s.enum.fullGrpcName,
+      valueNames: Object.values(s.enum.values),
+      numbers: s.enum.numbers,
+    }))
+    .with({ oneOf: P.not(P.nullish) }, (s) => ({ fullGrpcName: s.oneOf.fullGrpcName, valueNames: s.oneOf.values }))
+    .with({ polymorph: P.not(P.nullish) }, (s) => ({ fullGrpcName: s.polymorph.fullGrpcName, valueNames: s.polymorph.members ?? [] }))
+    .otherwise(() => undefined);
+}
+
+export function getSchemaFullGrpcName(schema: GeneratedSchema): string | undefined {
+  return match(schema)
+    .with({ rawSchema: { enum: P.not(P.nullish) } }, (s) => s.rawSchema.enum.fullGrpcName)
+    .with({ rawSchema: { oneOf: P.not(P.nullish) } }, (s) => s.rawSchema.oneOf.fullGrpcName)
+    .with({ rawSchema: { polymorph: P.not(P.nullish) } }, (s) => s.rawSchema.polymorph.fullGrpcName)
+    .with({ rawSchema: { object: P.not(P.nullish) } }, (s) => s.rawSchema.object.fullGrpcName)
+    .otherwise(() => undefined);
+}
+
+// splitValueSegment splits a key's last segment into the value it was written for and a description suffix, if it has one
+function splitValueSegment(key: string, valueNames: string[]) {
+  const segment = splitKey(key).pop()!;
+
+  if (valueNames.includes(segment)) {
+    return { valueName: segment, suffix: '' };
+  }
+
+  if (segment.endsWith(I18N_DESCRIPTION_KEY_SUFFIX) && valueNames.includes(segment.slice(0, -I18N_DESCRIPTION_KEY_SUFFIX.length))) {
+    return { valueName: segment.slice(0, -I18N_DESCRIPTION_KEY_SUFFIX.length), suffix: I18N_DESCRIPTION_KEY_SUFFIX };
+  }
+
+  return undefined;
+}
+
+// getRenamedValueName returns the current name of a previous value, matching renamed enum options by their number
+function getRenamedValueName(valueName: string, previous: TranslationSourceValues, schema: GeneratedSchema) {
+  if (getSchemaTranslationValueNames(schema)?.includes(valueName)) {
+    return valueName;
+  }
+
+  const number = previous.numbers?.[valueName];
+
+  return match(schema)
+    .with({ rawSchema: { enum: P.not(P.nullish) } }, (s) =>
+      number !== undefined ? s.rawSchema.enum.options.find((option) => option.number === number)?.name : undefined,
+    )
+    .otherwise(() => undefined);
+}
+
+/**
+ * Finds the new keys for translations written by the previous run for a schema that has since been renamed, or whose values
+ * have been renamed, matching schemas by their fullGrpcName. Existing translations are only moved to keys that are
+ * written in this run and don't already have an existing translation.
+ */
+export function findRenamedTranslationKeys(
+  existingTranslations: Map<string, Translation>,
+  newTranslations: Map<string, Translation>,
+  previousTranslations: Record<string, WrittenTranslation>,
+) {
+  const newKeysBySourceValue = new Map<string, string>();
+
+  for (const [key, translation] of newTranslations) {
+    const fullGrpcName = translation.source ? getSchemaFullGrpcName(translation.source) : undefined;
+
+    if (fullGrpcName) {
+      newKeysBySourceValue.set(`${fullGrpcName}:${splitKey(key).pop()}`, key);
+    }
+  }
+
+  const renames: { previousKey: string; key: string; fullGrpcName: string }[] = [];
+
+  for (const [previousKey, writtenTranslation] of Object.entries(previousTranslations)) {
+    const previous = getWrittenTranslationSourceValues(writtenTranslation);
+
+    if (!previous || !existingTranslations.has(previousKey) || newTranslations.has(previousKey)) {
+      continue;
+    }
+
+    const valueSegment = splitValueSegment(previousKey, previous.valueNames);
+    const schema = Array.from(newTranslations.values()).find(
+      (translation) => translation.source && getSchemaFullGrpcName(translation.source) === previous.fullGrpcName,
+    )?.source;
+
+    if (!valueSegment || !schema) {
+      continue;
+    }
+
+    const valueName = getRenamedValueName(valueSegment.valueName, previous, schema);
+    const key = valueName ? newKeysBySourceValue.get(`${previous.fullGrpcName}:${valueName}${valueSegment.suffix}`) : undefined;
+
+    if (key && !existingTranslations.has(key) && !renames.some((rename) => rename.key === key)) {
+      renames.push({ previousKey, key, fullGrpcName: previous.fullGrpcName });
+    }
+  }
+
+  return renames;
+}
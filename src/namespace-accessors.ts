@@ -0,0 +1,77 @@
+import ts, { factory } from 'typescript';
+import { pascalCase } from 'change-case';
+import { I18NEXT_DEFAULT_EXPORT_NAME } from './helpers';
+
+export const REACT_I18NEXT_IMPORT_PATH = 'react-i18next';
+export const REACT_I18NEXT_USE_TRANSLATION_FUNCTION_NAME = 'useTranslation';
+export const I18NEXT_GET_FIXED_T_FUNCTION_NAME = 'getFixedT';
+
+export function getNamespaceAccessorName(namespace: string) {
+  return `get${pascalCase(namespace)}T`;
+}
+
+export function getNamespaceHookName(namespace: string) {
+  return `use${pascalCase(namespace)}Translation`;
+}
+
+function createExportedArrowFunction(name: string, parameters: ts.ParameterDeclaration[], body: ts.Expression) {
+  return factory.createVariableStatement(
+    [factory.createModifier(ts.SyntaxKind.ExportKeyword)],
+    factory.createVariableDeclarationList(
+      [
+        factory.createVariableDeclaration(
+          name,
+          undefined,
+          undefined,
+          factory.createArrowFunction(undefined, undefined, parameters, undefined, factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken), body),
+        ),
+      ],
+      ts.NodeFlags.Const,
+    ),
+  );
+}
+
+/**
+ * Builds a `get<Namespace>T(lng?)` accessor for each namespace, returning i18next's fixed t function for the namespace,
+ * and a `use<Namespace>Translation()` hook calling react-i18next's `useTranslation` with the namespace when `withHooks`
+ * is set. Both are typed by the namespace literal, so keys are restricted to the namespace's keys by `CustomTypeOptions`.
+ */
+export function buildNamespaceAccessorNodes(namespaces: string[], withHooks: boolean): ts.Node[] {
+  return namespaces.flatMap((namespace) => [
+    createExportedArrowFunction(
+      getNamespaceAccessorName(namespace),
+      [
+        factory.createParameterDeclaration(
+          undefined,
+          undefined,
+          'lng',
+          factory.createToken(ts.SyntaxKind.QuestionToken),
+          factory.createUnionTypeNode([
+            factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+            factory.createLiteralTypeNode(factory.createNull()),
+          ]),
+        ),
+      ],
+      factory.createCallExpression(
+        factory.createPropertyAccessExpression(factory.createIdentifier(I18NEXT_DEFAULT_EXPORT_NAME), I18NEXT_GET_FIXED_T_FUNCTION_NAME),
+        undefined,
+        [
+          factory.createBinaryExpression(factory.createIdentifier('lng'), ts.SyntaxKind.QuestionQuestionToken, factory.createNull()),
+          factory.createStringLiteral(namespace, true),
+        ],
+      ),
+    ),
+    ...(withHooks
+      ? [
+          createExportedArrowFunction(
+            getNamespaceHookName(namespace),
+            [],
+            factory.createCallExpression(factory.createIdentifier(REACT_I18NEXT_USE_TRANSLATION_FUNCTION_NAME), undefined, [
+              factory.createStringLiteral(namespace, true),
+            ]),
+          ),
+        ]
+      : []),
+    factory.createIdentifier('\n'),
+  ]);
+}
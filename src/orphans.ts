@@ -0,0 +1,102 @@
+import { sortByKey } from '@pentops/sort-helpers';
+import { getDisplayKey, type Translation } from './helpers';
+import { getPreviousWrittenTranslations } from './migrations';
+import type { I18nPluginState, WrittenTranslation } from './state';
+
+// DEFAULT_MANAGED_KEY_PREFIXES are the sections the default schema and method translation path getters write to
+export const DEFAULT_MANAGED_KEY_PREFIXES = ['enum', 'method', 'object', 'oneOf', 'polymorph'];
+
+/**
+ * `generated` keys are written by the current run. Keys that only exist in the file are `orphaned` when they're under a
+ * managed prefix and were generated by a previous run, `manual` when they're under a managed prefix but were never
+ * generated (or there's no previous state to tell, so they're never pruned), and `unmanaged` when they're outside the
+ * managed prefixes.
+ */
+export type TranslationKeyClassification = 'generated' | 'orphaned' | 'manual' | 'unmanaged';
+
+export interface I18nPluginOrphanedKeysConfig {
+  // managedPrefixes are the key sections the plugin owns, defaults to DEFAULT_MANAGED_KEY_PREFIXES
+  managedPrefixes?: string[];
+  // prune removes orphaned keys from the files, manual and unmanaged keys are always kept
+  prune?: boolean;
+}
+
+export interface TranslationFileKeyClassifications extends Record<TranslationKeyClassification, string[]> {
+  fileName: string;
+  language: string;
+  namespace: string;
+  // pruned are the orphaned keys removed from the file, when prune is enabled
+  pruned: string[];
+}
+
+export function isUnderManagedPrefix(key: string, managedPrefixes: string[]) {
+  const displayKey = getDisplayKey(key);
+
+  return managedPrefixes.some((prefix) => displayKey.startsWith(`${prefix}.`));
+}
+
+export interface PreviousTranslationKeys {
+  translations: Record<string, WrittenTranslation>;
+  // orphanedKeys are the keys the previous run classified as orphaned, so orphans that were kept stay orphaned
+  orphanedKeys: Set<string>;
+}
+
+export function getPreviousTranslationKeys(
+  previousState: I18nPluginState | undefined,
+  language: string,
+  namespace: string,
+): PreviousTranslationKeys | undefined {
+  if (!previousState) {
+    return undefined;
+  }
+
+  return {
+    translations: getPreviousWrittenTranslations(previousState, language, namespace),
+    orphanedKeys: new Set(
+      previousState.keyClassifications
+        ?.filter((classifications) => classifications.language === language && classifications.namespace === namespace)
+        .flatMap((classifications) => classifications.orphaned) ?? [],
+    ),
+  };
+}
+
+export function classifyTranslationKey(
+  key: string,
+  newTranslations: Map<string, Translation>,
+  managedPrefixes: string[],
+  previous?: PreviousTranslationKeys,
+): TranslationKeyClassification {
+  if (newTranslations.has(key)) {
+    return 'generated';
+  }
+
+  if (!isUnderManagedPrefix(key, managedPrefixes)) {
+    return 'unmanaged';
+  }
+
+  if (previous && (previous.translations[key]?.source || previous.orphanedKeys.has(key))) {
+    return 'orphaned';
+  }
+
+  return 'manual';
+}
+
+export function classifyTranslationKeys(
+  existingTranslations: Map<string, Translation>,
+  newTranslations: Map<string, Translation>,
+  managedPrefixes: string[],
+  previous?: PreviousTranslationKeys,
+): Record<TranslationKeyClassification, string[]> {
+  const classifications: Record<TranslationKeyClassification, string[]> = { generated: [], orphaned: [], manual: [], unmanaged: [] };
+
+  for (const key of new Set([...newTranslations.keys(), ...existingTranslations.keys()])) {
+    classifications[classifyTranslationKey(key, newTranslations, managedPrefixes, previous)].push(key);
+  }
+
+  return {
+    generated: sortByKey(classifications.generated, (key) => key),
+    orphaned: sortByKey(classifications.orphaned, (key) => key),
+    manual: sortByKey(classifications.manual, (key) => key),
+    unmanaged: sortByKey(classifications.unmanaged, (key) => key),
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * `abort` fails the run with the file path and parse location, `backup` copies the broken file to `<fileName>.bak` before
+ * regenerating it, and `tolerant` re-parses the file with the format's tolerant parser (JSON5 for JSON files), aborting
+ * if the format doesn't have one or it fails too.
+ */
+export type I18nPluginParseFailurePolicy = 'abort' | 'backup' | 'tolerant';
+
+export interface ParseFailure {
+  fileName: string;
+  writePath: string;
+  language: string;
+  policy: I18nPluginParseFailurePolicy;
+  message: string;
+  line?: number;
+  column?: number;
+  // backupFileName is the name of the copy of the broken file, written next to it when the policy is backup
+  backupFileName?: string;
+}
+
+function getLineAndColumn(content: string, position: number) {
+  const lines = content.slice(0, position).split('\n');
+
+  return { line: lines.length, column: lines[lines.length - 1]!.length + 1 };
+}
+
+// ParserError is the subset of the JSON, JSON5 and YAML parsers' error properties used to describe a parse failure
+interface ParserError {
+  cause?: unknown;
+  message?: unknown;
+  // linePos is set by the YAML parser
+  linePos?: unknown;
+  // lineNumber and columnNumber are set by the JSON5 parser
+  lineNumber?: unknown;
+  columnNumber?: unknown;
+}
+
+function isParserError(value: unknown): value is ParserError {
+  return typeof value === 'object' && value !== null;
+}
+
+function isLinePos(value: unknown): value is { line: number; col: number } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'line' in value &&
+    typeof value.line === 'number' &&
+    'col' in value &&
+    typeof value.col === 'number'
+  );
+}
+
+function getErrorChain(error: unknown) {
+  const chain: ParserError[] = [];
+
+  for (let e: unknown = error; isParserError(e) && !chain.includes(e); e = e.cause) {
+    chain.push(e);
+  }
+
+  return chain;
+}
+
+// getParseErrorMessage returns the message of the innermost error, without the file content wrapping errors include
+export function getParseErrorMessage(error: unknown) {
+  const chain = getErrorChain(error);
+
+  return chain.length ? String(chain[chain.length - 1].message) : String(error);
+}
+
+// getParseErrorLocation reads the 1-based line and column of a parse error from the JSON, JSON5 or YAML parser's error
+export function getParseErrorLocation(content: string, error: unknown): Pick<ParseFailure, 'line' | 'column'> {
+  for (const e of getErrorChain(error).reverse()) {
+    const linePos: unknown = Array.isArray(e.linePos) ? e.linePos[0] : undefined;
+
+    if (isLinePos(linePos)) {
+      return { line: linePos.line, column: linePos.col };
+    }
+
+    if (typeof e.lineNumber === 'number' && typeof e.columnNumber === 'number') {
+      return { line: e.lineNumber, column: e.columnNumber };
+    }
+
+    const lineAndColumnMatch = String(e.message).match(/line (\d+) column (\d+)/);
+
+    if (lineAndColumnMatch) {
+      return { line: Number(lineAndColumnMatch[1]), column: Number(lineAndColumnMatch[2]) };
+    }
+
+    const positionMatch = String(e.message).match(/position (\d+)/);
+
+    if (positionMatch) {
+      return getLineAndColumn(content, Number(positionMatch[1]));
+    }
+  }
+
+  return {};
+}
+
+export function formatParseFailure(failure: ParseFailure) {
+  return `${failure.writePath}${failure.line !== undefined ? `:${failure.line}:${failure.column}` : ''}: ${failure.message}`;
+}
@@ -1,5 +1,6 @@
+import path from 'path';
 import ts, { factory } from 'typescript';
-import type { InitOptions, ResourceLanguage } from 'i18next';
+import type { InitOptions } from 'i18next';
 import {
   createObjectLiteral,
   type GeneratedClientFunction,
@@ -10,41 +11,153 @@ import {
   type IPluginFileConfig,
   type IPluginRunOutput,
   defaultGeneratorFileReader,
+  getImportPath,
   type IWritableFile,
 } from '@pentops/jsonapi-jdef-ts-generator';
 import { camelCase } from 'change-case';
-import setWith from 'lodash.setwith';
+import { match, P } from 'ts-pattern';
 import { sortByKey } from '@pentops/sort-helpers';
 import {
   buildProspectiveTranslations,
+  buildDescriptionTranslations,
   buildResourcesObjectLiteral,
   defaultConflictHandler,
+  defaultMethodTranslationPathOrGetter,
+  defaultMethodTranslationWriter,
   defaultNamespaceWriter,
   defaultSchemaTranslationWriter,
   defaultTranslationPathOrGetter,
-  gatherTranslations,
+  escapeKeySegment,
+  getDisplayKey,
+  getFileLanguage,
+  getFileNameWithoutExtension,
+  getSchemaTranslationValueNames,
   I18N_INIT_OPTS_VAR_NAME,
   I18N_NAMESPACES_TYPE_NAME,
+  I18NEXT_CUSTOM_TYPE_OPTIONS_INTERFACE_NAME,
   I18NEXT_DEFAULT_EXPORT_NAME,
   I18NEXT_IMPORT_PATH,
   I18NEXT_INIT_FUNCTION_NAME,
   I18NEXT_USE_FUNCTION_NAME,
+  reconcileExistingTranslationKeys,
   type I18nPluginConflictHandler,
+  type I18nPluginMethodTranslationPathGetter,
+  type I18nPluginMethodTranslationWriter,
+  type I18nPluginObjectPropertyLabelsConfig,
+  type I18nPluginTargetLanguageSeeder,
+  type I18nPluginTranslationContext,
   type I18nPluginTranslationPathGetter,
   type I18nPluginTranslationWriter,
+  type I18nPluginUnmatchedTranslationHandler,
   type NamespaceWriter,
-  parseExistingValue,
+  type ProspectiveTranslation,
+  resolveUnmatchedTranslation,
+  seedTargetLanguageTranslation,
   type Translation,
+  withProspectSources,
 } from './helpers';
 import { I18nPluginFile } from './plugin-file';
-import { buildState, I18nPluginState } from './state';
+import {
+  collectCommonTranslationSources,
+  defaultCommonTranslationPathOrGetter,
+  defaultCommonTranslationWriter,
+  type I18nPluginCommonTranslationPathGetter,
+  type I18nPluginCommonTranslationWriter,
+} from './common-translations';
+import {
+  diffTranslations,
+  findMissingTranslations,
+  formatCheckResult,
+  type I18nPluginCheckMode,
+  type I18nPluginCheckResult,
+  isTranslationFileCheckPassing,
+  type TranslationFileCheck,
+} from './check';
+import { buildState, I18nPluginState, type WrittenTranslationFile, type WrittenTranslationSource } from './state';
+import {
+  findLeafBranchCollisions,
+  formatKeyCollision,
+  getCollisionSources,
+  type I18nPluginKeyCollisionPolicy,
+  type KeyCollision,
+} from './collisions';
+import { type I18nPluginFileFormat, type I18nPluginFileFormatContext, type I18nPluginKeyStyle, jsonFileFormat } from './formats';
+import { buildLabelHelperNodes, getLabelHelperValueTypeName, I18NEXT_T_FUNCTION_TYPE_NAME, type LabelHelperSchema } from './label-helpers';
+import { buildNamespaceAccessorNodes, REACT_I18NEXT_IMPORT_PATH, REACT_I18NEXT_USE_TRANSLATION_FUNCTION_NAME } from './namespace-accessors';
+import {
+  findRenamedTranslationKeys,
+  getPreviousWrittenTranslations,
+  type I18nPluginMigrationsConfig,
+  parsePreviousPluginState,
+  type TranslationMigration,
+} from './migrations';
+import {
+  formatParseFailure,
+  getParseErrorLocation,
+  getParseErrorMessage,
+  type I18nPluginParseFailurePolicy,
+  type ParseFailure,
+} from './parse-failures';
+import { parseSourceMetadata, type SourceMetadata, type StaleTranslation, trackSourceValues } from './source-metadata';
+import {
+  buildLazyResourceNodes,
+  I18N_LAZY_RESOURCES_TYPE_NAME,
+  I18N_RESOURCES_BACKEND_VAR_NAME,
+  I18NEXT_BACKEND_MODULE_TYPE_NAME,
+  I18NEXT_RESOURCE_KEY_TYPE_NAME,
+} from './lazy-resources';
+import {
+  classifyTranslationKeys,
+  DEFAULT_MANAGED_KEY_PREFIXES,
+  getPreviousTranslationKeys,
+  type I18nPluginOrphanedKeysConfig,
+  type TranslationFileKeyClassifications,
+} from './orphans';
+import { buildPseudoLocaleTranslations, I18N_DEFAULT_PSEUDO_LOCALE, type I18nPluginPseudoLocaleConfig } from './pseudo-locale';
+import { expandTranslationVariants, groupTranslationVariants, type I18nPluginVariantsGetter } from './variants';
+import type { I18nPluginValueFormatterConfig } from './value-formatters';
 
 export interface I18nPluginFileGeneratorConfig<TFileContentType = string> extends Omit<IPluginFileConfig<TFileContentType>, 'exportFromIndexFile'> {
-  language: string;
+  // descriptions writes schema descriptions as translator context, as `<key>_description` sibling keys, in a `<fileName>.context.json` file or as comments in formats that support them
+  descriptions?: 'keys' | 'file' | 'comments';
+  // format serializes and parses the file, defaults to JSON
+  format?: I18nPluginFileFormat;
+  // keyCollisionPolicy determines how duplicate and leaf/branch key collisions between translations are handled, defaults to report
+  keyCollisionPolicy?: I18nPluginKeyCollisionPolicy;
+  // keyStyle defaults to flat when the index file's initOptions set keySeparator to false, otherwise nested
+  keyStyle?: I18nPluginKeyStyle;
+  // language is required unless languages is specified
+  language?: string;
+  // languages generates one file per language, each in its own language subdirectory
+  languages?: string[];
+  // methodTranslationPathOrGetter and methodTranslationWriter translate client functions, for files with a clientFunctionFilter
+  methodTranslationPathOrGetter?: I18nPluginMethodTranslationPathGetter;
+  methodTranslationWriter?: I18nPluginMethodTranslationWriter;
   namespaceName?: string;
+  // objectPropertyLabels enables `object.<GeneratedName>.<propertyName>` labels in the default path getter and translation writer
+  objectPropertyLabels?: boolean | I18nPluginObjectPropertyLabelsConfig;
+  // parseFailurePolicy determines how an existing file that fails to parse is handled, defaults to abort
+  parseFailurePolicy?: I18nPluginParseFailurePolicy;
+  // sourceLanguage is the language generated values are written in, defaults to language or the first of languages
+  sourceLanguage?: string;
+  // sourceMetadataFile enables stale translation tracking by recording the source value each target language translation was made against
+  sourceMetadataFile?: boolean | I18nPluginSourceMetadataFileConfig;
+  // targetLanguageSeeder determines how new keys are seeded into files for languages other than the source language
+  targetLanguageSeeder?: I18nPluginTargetLanguageSeeder;
   translationPathOrGetter?: I18nPluginTranslationPathGetter;
   translationWriter?: I18nPluginTranslationWriter;
-  unmatchedTranslationFromExistingFileHandler?: 'keep' | 'remove' | ((translation: Translation) => Translation | null);
+  // unmatchedTranslationFromExistingFileHandler takes precedence over the plugin's conflictHandler for translations only found in the existing file
+  unmatchedTranslationFromExistingFileHandler?: I18nPluginUnmatchedTranslationHandler;
+  // valueFormatting makes the default translation writer format names as values, e.g. `PENDING_REVIEW` as "Pending Review", instead of writing them as-is
+  valueFormatting?: boolean | I18nPluginValueFormatterConfig;
+  // variants returns the plural and context variants to write for a schema's keys, each variant group is merged as one unit
+  variants?: I18nPluginVariantsGetter;
+}
+
+export interface I18nPluginSourceMetadataFileConfig {
+  // directory defaults to the file config's directory, fileName defaults to `<fileName>.meta.json`
+  directory?: string;
+  fileName?: string;
 }
 
 export type I18nPluginFileConfigCreator<TFileContentType = string> = (
@@ -58,34 +171,93 @@ export interface I18nIndexMiddlewareConfig {
   isDefault?: boolean;
 }
 
+export interface I18nIndexCustomTypeOptionsConfig {
+  // language is the language whose resources are used for key types, defaults to the first generated language
+  language?: string;
+}
+
 export interface I18nIndexFileConfig<TFileContentType = string> extends IPluginFileConfig<TFileContentType> {
+  // addGeneratedResources adds the generated JSON files as resources, files written in other formats aren't added
   addGeneratedResources?: boolean;
+  // customTypeOptions augments i18next's CustomTypeOptions with the generated resources, so translation keys are type checked, defaults to true with namespaceAccessors
+  customTypeOptions?: boolean | I18nIndexCustomTypeOptionsConfig;
   initOptions?: InitOptions;
   middleware?: I18nIndexMiddlewareConfig[];
+  // namespaceAccessors exports a `get<Namespace>T` accessor per namespace, and a `use<Namespace>Translation` hook when react-i18next middleware is configured, keys are typed with customTypeOptions, which can't be disabled with them
+  namespaceAccessors?: boolean;
+  // resourceLoading `lazy` loads generated resources with dynamic imports through a backend module, instead of importing them into initOptions.resources
+  resourceLoading?: 'eager' | 'lazy';
   topOfFileComment?: string;
 }
 
+export type I18nLabelHelpersFileConfig<TFileContentType = string> = IPluginFileConfig<TFileContentType>;
+
 export interface I18nPluginDefaultNamespaceFileConfig
-  extends Omit<I18nPluginFileGeneratorConfig, 'translationPathOrGetter' | 'translationWriter' | 'language'> {
+  extends Omit<
+    I18nPluginFileGeneratorConfig,
+    | 'descriptions'
+    | 'methodTranslationPathOrGetter'
+    | 'methodTranslationWriter'
+    | 'translationPathOrGetter'
+    | 'translationWriter'
+    | 'language'
+    | 'languages'
+    | 'objectPropertyLabels'
+    | 'sourceLanguage'
+    | 'sourceMetadataFile'
+    | 'targetLanguageSeeder'
+    | 'valueFormatting'
+    | 'variants'
+  > {
+  commonTranslationPathOrGetter?: I18nPluginCommonTranslationPathGetter;
+  commonTranslationWriter?: I18nPluginCommonTranslationWriter;
   languages: string[];
+  // packageLabels writes the label of each package with generated schemas, under `package.<package name>` by default
+  packageLabels?: boolean;
 }
 
 export interface I18nPluginConfig extends IPluginConfig<I18nPluginFile> {
+  // check builds the would-be output and diffs it against the files on disk instead of writing anything, for use in CI
+  check?: I18nPluginCheckMode;
   conflictHandler: I18nPluginConflictHandler;
   // defaultNamespaceFile is where schema names for defined any values will go
   defaultNamespaceFile?: I18nPluginDefaultNamespaceFileConfig;
   files: I18nPluginFileGeneratorConfig[] | I18nPluginFileConfigCreator;
   indexFile?: I18nIndexFileConfig;
+  // labelHelpersFile is a TypeScript module of typed translation key maps and label getters for each translated schema
+  labelHelpersFile?: I18nLabelHelpersFileConfig;
+  // migrateRenames carries existing translations to new keys when schemas or enum options are renamed, using the previous run's state
+  migrateRenames?: boolean | I18nPluginMigrationsConfig;
   namespaceWriter: NamespaceWriter;
+  // orphanedKeys classifies the keys in each file as generated, orphaned, manual or unmanaged, and can prune orphaned keys under the managed prefixes
+  orphanedKeys?: boolean | I18nPluginOrphanedKeysConfig;
+  // pseudoLocale generates a pseudo-localized copy of each source language file, as an extra language for QA, e.g. en-XA
+  pseudoLocale?: boolean | I18nPluginPseudoLocaleConfig;
 }
 
 export type I18nPluginConfigInput = Optional<I18nPluginConfig, 'conflictHandler' | 'namespaceWriter'>;
 
 export class I18nPlugin extends BasePlugin<string, I18nPluginFileGeneratorConfig, I18nPluginFile, I18nPluginConfig, I18nPluginState> {
   name = 'I18nPlugin';
-  private writtenTranslations: Record<string, Translation> = {};
+  private writtenTranslationFiles: WrittenTranslationFile[] = [];
+  private finalTranslationsByFile = new Map<I18nPluginFile, Map<string, Translation>>();
+  private sourceMetadataFiles = new Map<string, { file: I18nPluginFile; previous: SourceMetadata; next: SourceMetadata }>();
+  private staleTranslations: StaleTranslation[] = [];
+  private contextFiles: I18nPluginFile[] = [];
+  private backupFiles: I18nPluginFile[] = [];
+  private parseFailures: ParseFailure[] = [];
+  private keyCollisions: KeyCollision[] = [];
+  private existingTranslationsByFile = new Map<I18nPluginFile, Map<string, Translation>>();
+  private checkResult: I18nPluginCheckResult | undefined;
+  private previousState: I18nPluginState | undefined;
+  private migrations: TranslationMigration[] = [];
+  private keyClassifications: TranslationFileKeyClassifications[] = [];
 
   private static buildConfig(config: I18nPluginConfigInput): I18nPluginConfig {
+    if (config.indexFile?.namespaceAccessors && config.indexFile.customTypeOptions === false) {
+      throw new Error('I18nPlugin: indexFile.namespaceAccessors requires indexFile.customTypeOptions, so the accessors are typed by namespace');
+    }
+
     return {
       ...config,
       conflictHandler: config.conflictHandler ?? defaultConflictHandler,
@@ -99,88 +271,730 @@ export class I18nPlugin extends BasePlugin<string, I18nPluginFileGeneratorConfig
 
   protected createPluginFilesFromConfig(fileConfig?: I18nPluginFileGeneratorConfig[]) {
     super.createPluginFilesFromConfig(
-      (fileConfig || []).map((config) => ({ ...config, exportFromIndexFile: false, directory: `${config.directory}/${config.language}` })),
+      (fileConfig || []).flatMap((config) => {
+        const languages = config.languages?.length ? config.languages : config.language ? [config.language] : [];
+
+        if (!languages.length) {
+          throw new Error(`I18nPlugin: file config for ${config.fileName} must specify either language or languages`);
+        }
+
+        const sourceLanguage = config.sourceLanguage || config.language || languages[0];
+        const allLanguages = Array.from(new Set([sourceLanguage, ...languages]));
+
+        return allLanguages.map((language) => ({
+          ...config,
+          language,
+          sourceLanguage,
+          exportFromIndexFile: false,
+          directory: `${config.directory}/${language}`,
+        }));
+      }),
+    );
+  }
+
+  private isSourceLanguageFile(file: I18nPluginFile) {
+    return !file.config.sourceLanguage || file.config.sourceLanguage === file.config.language;
+  }
+
+  private getBaseDirectory(file: I18nPluginFile) {
+    return file.config.directory.slice(0, -`/${file.config.language}`.length);
+  }
+
+  private getSourceLanguageFile(file: I18nPluginFile) {
+    if (this.isSourceLanguageFile(file)) {
+      return undefined;
+    }
+
+    const baseDirectory = this.getBaseDirectory(file);
+
+    return this.files.find(
+      (f) =>
+        f.config.language === file.config.sourceLanguage &&
+        f.config.fileName === file.config.fileName &&
+        f.config.directory === `${baseDirectory}/${file.config.sourceLanguage}`,
+    );
+  }
+
+  private seedTargetLanguageTranslations(newTranslations: Map<string, Translation>, context: I18nPluginTranslationContext) {
+    const sourceFile = this.getSourceLanguageFile(context.file);
+    const sourceTranslations = sourceFile ? this.finalTranslationsByFile.get(sourceFile) : undefined;
+    const seededTranslations = new Map<string, Translation>();
+
+    for (const [key, translation] of newTranslations) {
+      const existingTranslation = context.existingTranslations.get(key);
+
+      if (existingTranslation) {
+        seededTranslations.set(key, { ...existingTranslation, source: translation.source, variantOf: translation.variantOf });
+        continue;
+      }
+
+      const sourceTranslation = sourceTranslations?.get(key) ?? translation;
+      const seededTranslation = seedTargetLanguageTranslation(
+        context.file.config.targetLanguageSeeder ?? 'copy',
+        { ...sourceTranslation, source: translation.source, variantOf: translation.variantOf },
+        context,
+      );
+
+      if (seededTranslation) {
+        seededTranslations.set(seededTranslation.key, seededTranslation);
+      }
+    }
+
+    return seededTranslations;
+  }
+
+  private getSourceMetadataFilePath(file: I18nPluginFile) {
+    const { sourceMetadataFile } = file.config;
+
+    if (!sourceMetadataFile) {
+      return undefined;
+    }
+
+    const { directory = this.getBaseDirectory(file), fileName = `${getFileNameWithoutExtension(file.config.fileName)}.meta.json` } =
+      sourceMetadataFile === true ? {} : sourceMetadataFile;
+
+    return { directory, fileName };
+  }
+
+  private async loadSourceMetadataFile(file: I18nPluginFile) {
+    const path = this.getSourceMetadataFilePath(file);
+
+    if (!path || this.sourceMetadataFiles.has(`${path.directory}/${path.fileName}`)) {
+      return;
+    }
+
+    const metadataFile = this.createPluginFile({ ...path, exportFromIndexFile: false }, defaultGeneratorFileReader);
+
+    this.sourceMetadataFiles.set(`${path.directory}/${path.fileName}`, {
+      file: metadataFile,
+      previous: parseSourceMetadata((await metadataFile.pollForExistingFileContent())?.content),
+      next: {},
+    });
+  }
+
+  private trackStaleTranslations(finalTranslationsForFile: Map<string, Translation>, context: I18nPluginTranslationContext) {
+    const path = this.getSourceMetadataFilePath(context.file);
+    const sourceFile = this.getSourceLanguageFile(context.file);
+    const sourceTranslations = sourceFile ? this.finalTranslationsByFile.get(sourceFile) : undefined;
+    const metadataFile = path ? this.sourceMetadataFiles.get(`${path.directory}/${path.fileName}`) : undefined;
+
+    if (!metadataFile || !sourceTranslations) {
+      return;
+    }
+
+    const { metadata, staleKeys } = trackSourceValues(finalTranslationsForFile, sourceTranslations, metadataFile.previous[context.language]);
+
+    metadataFile.next[context.language] = metadata;
+
+    for (const key of staleKeys) {
+      this.staleTranslations.push({
+        fileName: context.file.config.fileName,
+        namespace: context.namespace,
+        language: context.language,
+        key,
+        value: metadata[key]!.value,
+        sourceValue: sourceTranslations.get(key)!.value,
+        previousSourceValue: metadata[key]!.sourceValue,
+      });
+    }
+  }
+
+  private buildSourceMetadataFiles() {
+    for (const [, { file, next }] of this.sourceMetadataFiles) {
+      const sortedMetadata = Object.fromEntries(
+        sortByKey(Object.keys(next), (language) => language).map((language) => [
+          language,
+          Object.fromEntries(sortByKey(Object.entries(next[language]!), ([key]) => key)),
+        ]),
+      );
+
+      file.setRawContent(JSON.stringify(sortedMetadata, null, 2));
+      this.files.push(file);
+    }
+  }
+
+  private generateContextFile(file: I18nPluginFile, newTranslations: Map<string, Translation>) {
+    const descriptions = sortByKey(
+      Array.from(newTranslations.values()).filter((translation) => translation.description),
+      (translation) => translation.key,
     );
+
+    if (!descriptions.length) {
+      return;
+    }
+
+    const contextFile = this.createPluginFile(
+      {
+        directory: this.getBaseDirectory(file),
+        fileName: `${getFileNameWithoutExtension(file.config.fileName)}.context.json`,
+        exportFromIndexFile: false,
+      },
+      defaultGeneratorFileReader,
+    );
+
+    contextFile.setRawContent(
+      JSON.stringify(Object.fromEntries(descriptions.map((translation) => [translation.key, translation.description])), null, 2),
+    );
+    this.contextFiles.push(contextFile);
+  }
+
+  private recordKeyCollision(collision: Omit<KeyCollision, 'fileName' | 'language'>, context: I18nPluginTranslationContext) {
+    const keyCollision: KeyCollision = { ...collision, fileName: context.file.config.fileName, language: context.language };
+
+    if (context.file.config.keyCollisionPolicy === 'error') {
+      throw new Error(`I18nPlugin: ${formatKeyCollision(keyCollision)}`);
+    }
+
+    this.keyCollisions.push(keyCollision);
   }
 
-  private mergeAndBuildTranslations(newTranslations: Map<string, Translation>, existingTranslationsInFile: Map<string, Translation>) {
-    const prospects = buildProspectiveTranslations(newTranslations, existingTranslationsInFile);
+  private addNewTranslation(newTranslations: Map<string, Translation>, translation: Translation, context: I18nPluginTranslationContext) {
+    const existingTranslation = newTranslations.get(translation.key);
 
+    if (existingTranslation) {
+      this.recordKeyCollision(
+        { type: 'duplicate', key: translation.key, conflictingKey: translation.key, sources: getCollisionSources(existingTranslation, translation) },
+        context,
+      );
+
+      if (context.file.config.keyCollisionPolicy === 'keepFirst') {
+        return;
+      }
+    }
+
+    newTranslations.set(translation.key, translation);
+  }
+
+  // Leaf/branch collisions only affect nested files, where a key can't be both a value and an object
+  private resolveLeafBranchCollisions(
+    finalTranslationsForFile: Map<string, Translation>,
+    newTranslations: Map<string, Translation>,
+    context: I18nPluginTranslationContext,
+  ) {
+    if (this.getKeyStyle(context.file) !== 'nested') {
+      return;
+    }
+
+    for (const [leaf, branch] of findLeafBranchCollisions(finalTranslationsForFile)) {
+      this.recordKeyCollision(
+        {
+          type: 'leafBranch',
+          key: leaf.key,
+          conflictingKey: branch.key,
+          sources: getCollisionSources(newTranslations.get(leaf.key) ?? leaf, newTranslations.get(branch.key) ?? branch),
+        },
+        context,
+      );
+
+      if (context.file.config.keyCollisionPolicy === 'keepFirst') {
+        finalTranslationsForFile.delete(branch.key);
+      }
+    }
+  }
+
+  public getKeyCollisions(): KeyCollision[] {
+    return this.keyCollisions;
+  }
+
+  public getStaleTranslations(): StaleTranslation[] {
+    return this.staleTranslations;
+  }
+
+  private getTranslationPath(schema: GeneratedSchema, context: I18nPluginTranslationContext) {
+    const { translationPathOrGetter } = context.file.config;
+
+    return typeof translationPathOrGetter === 'function'
+      ? translationPathOrGetter(schema, context)
+      : translationPathOrGetter || defaultTranslationPathOrGetter(schema, context);
+  }
+
+  private getMethodTranslationPath(clientFunction: GeneratedClientFunction, context: I18nPluginTranslationContext) {
+    const { methodTranslationPathOrGetter } = context.file.config;
+
+    return typeof methodTranslationPathOrGetter === 'function'
+      ? methodTranslationPathOrGetter(clientFunction, context)
+      : methodTranslationPathOrGetter || defaultMethodTranslationPathOrGetter(clientFunction, context);
+  }
+
+  private getNamespaceName(file: I18nPluginFile) {
+    return file.config.namespaceName || this.pluginConfig.namespaceWriter(file);
+  }
+
+  private buildTranslationContext(file: I18nPluginFile, existingTranslations: Map<string, Translation>): I18nPluginTranslationContext {
+    return {
+      existingTranslations,
+      file,
+      language: getFileLanguage(file),
+      namespace: this.getNamespaceName(file),
+    };
+  }
+
+  private mergeAndBuildTranslations(newTranslations: Map<string, Translation>, context: I18nPluginTranslationContext) {
+    const prospects = buildProspectiveTranslations(newTranslations, context.existingTranslations);
     const finalTranslationsForFile = new Map<string, Translation>();
+    const previousTranslations = this.previousState ? getPreviousWrittenTranslations(this.previousState, context.language, context.namespace) : {};
+    const previousSources: Record<string, WrittenTranslationSource> = {};
+    const variantGroups = groupTranslationVariants(prospects, newTranslations);
+    const variantKeys = new Set(Array.from(variantGroups.values()).flat());
+
+    for (const [base, memberKeys] of variantGroups) {
+      this.mergeVariantGroup(base, memberKeys, prospects, finalTranslationsForFile, context);
+    }
 
     for (const [key, value] of prospects) {
-      if (value.newValue !== undefined && value.existingValue !== undefined && value.newValue === value.existingValue) {
-        finalTranslationsForFile.set(key, { key, value: value.newValue, source: value.source });
-      } else if (value.newValue !== undefined || value.existingValue !== undefined) {
-        const finalValue = this.pluginConfig.conflictHandler(value, prospects);
+      if (variantKeys.has(key)) {
+        continue;
+      }
 
-        if (finalValue) {
-          finalTranslationsForFile.set(finalValue.key, finalValue);
-        }
+      const finalValue = this.resolveProspectiveTranslation(value, prospects, context);
+
+      if (!finalValue) {
+        continue;
+      }
+
+      finalTranslationsForFile.set(finalValue.key, withProspectSources(finalValue, value));
+
+      // Kept keys that are no longer generated keep the source they were last generated from, so they're still classified as orphaned
+      const previousSource = value.newValue === undefined ? previousTranslations[key]?.source : undefined;
+
+      if (previousSource) {
+        previousSources[finalValue.key] = previousSource;
       }
     }
 
-    const fileContent: ResourceLanguage = {};
+    this.resolveLeafBranchCollisions(finalTranslationsForFile, newTranslations, context);
 
     const translationsSortedByKeyName = sortByKey(Array.from(finalTranslationsForFile.values()), (entry) => entry.key);
 
-    for (const translation of translationsSortedByKeyName) {
-      setWith(fileContent, translation.key, translation.value, Object);
-      this.writtenTranslations[translation.key] = translation;
+    this.writtenTranslationFiles.push({
+      file: path.join(context.file.config.directory, context.file.config.fileName),
+      language: context.language,
+      namespace: context.namespace,
+      translations: translationsSortedByKeyName,
+      previousSources,
+    });
+
+    this.finalTranslationsByFile.set(context.file, finalTranslationsForFile);
+
+    if (!this.isSourceLanguageFile(context.file)) {
+      this.trackStaleTranslations(finalTranslationsForFile, context);
     }
 
-    return JSON.stringify(fileContent, null, 2);
+    const sourceFile = this.getSourceLanguageFile(context.file);
+    const formatContext: I18nPluginFileFormatContext = {
+      ...context,
+      keyStyle: this.getKeyStyle(context.file),
+      sourceLanguage: context.file.config.sourceLanguage || context.language,
+      sourceTranslations: (sourceFile ? this.finalTranslationsByFile.get(sourceFile) : finalTranslationsForFile) || new Map(),
+    };
+
+    return this.getFileFormat(context.file).serialize(
+      context.file.config.descriptions === 'comments'
+        ? translationsSortedByKeyName.map((translation) => ({
+            ...translation,
+            description: translation.description ?? newTranslations.get(translation.key)?.description,
+          }))
+        : translationsSortedByKeyName,
+      formatContext,
+    );
   }
 
-  public async run(): Promise<IPluginRunOutput<I18nPluginFile>> {
-    for (const file of this.files) {
-      let fileData: ResourceLanguage | undefined;
+  private resolveProspectiveTranslation(
+    prospect: ProspectiveTranslation,
+    prospects: Map<string, ProspectiveTranslation>,
+    context: I18nPluginTranslationContext,
+  ): Translation | null {
+    const { unmatchedTranslationFromExistingFileHandler } = context.file.config;
+
+    if (prospect.newValue !== undefined && prospect.newValue === prospect.existingValue) {
+      return { key: prospect.key, value: prospect.newValue };
+    }
+
+    if (prospect.newValue === undefined && prospect.existingValue !== undefined && unmatchedTranslationFromExistingFileHandler) {
+      return resolveUnmatchedTranslation(unmatchedTranslationFromExistingFileHandler, {
+        key: prospect.key,
+        value: prospect.existingValue,
+        source: prospect.source,
+        clientFunctionSource: prospect.clientFunctionSource,
+      });
+    }
+
+    return this.pluginConfig.conflictHandler(prospect, prospects, context);
+  }
+
+  /**
+   * Resolves a variant group once, with the conflict handler for the group's `_other` variant (or the first variant with an
+   * existing value), and applies the outcome to every variant. When the existing value is kept, each variant keeps its own
+   * existing value, falling back to the value written for the base key before variants were enabled. Existing variants that
+   * are no longer generated are removed with the group. Groups that are no longer generated at all are resolved by the
+   * unmatched translation handler if there is one, and renames are applied to every variant.
+   */
+  private mergeVariantGroup(
+    base: string,
+    memberKeys: string[],
+    prospects: Map<string, ProspectiveTranslation>,
+    finalTranslationsForFile: Map<string, Translation>,
+    context: I18nPluginTranslationContext,
+  ) {
+    const members = memberKeys.map((key) => prospects.get(key)!);
+    const generatedMembers = members.filter((member) => member.newValue !== undefined);
+    const findRepresentative = (candidates: ProspectiveTranslation[]) => candidates.find((member) => member.key.endsWith('_other')) ?? candidates[0];
+
+    if (!generatedMembers.length) {
+      const representative = findRepresentative(members)!;
+      const { unmatchedTranslationFromExistingFileHandler } = context.file.config;
+      const resolved = unmatchedTranslationFromExistingFileHandler
+        ? resolveUnmatchedTranslation(unmatchedTranslationFromExistingFileHandler, {
+            key: representative.key,
+            value: representative.existingValue!,
+            source: representative.source,
+          })
+        : this.pluginConfig.conflictHandler(representative, prospects, context);
+
+      if (!resolved) {
+        return;
+      }
+
+      const representativeSuffix = representative.key.slice(base.length);
+      const resolvedBase = resolved.key.endsWith(representativeSuffix)
+        ? resolved.key.slice(0, resolved.key.length - representativeSuffix.length)
+        : base;
+
+      for (const member of members) {
+        const key = `${resolvedBase}${member.key.slice(base.length)}`;
+
+        finalTranslationsForFile.set(key, {
+          key,
+          value: member === representative ? resolved.value : member.existingValue!,
+          source: member.source,
+          variantOf: resolvedBase,
+        });
+      }
+
+      return;
+    }
+
+    const legacyValue = generatedMembers.some((member) => member.key === base) ? undefined : prospects.get(base)?.existingValue;
+    const representative =
+      findRepresentative(generatedMembers.filter((member) => member.existingValue !== undefined)) ?? findRepresentative(generatedMembers)!;
+    const existingValue = representative.existingValue ?? legacyValue;
+
+    const resolved =
+      existingValue === undefined || existingValue === representative.newValue
+        ? { key: representative.key, value: representative.newValue! }
+        : this.pluginConfig.conflictHandler({ ...representative, existingValue }, prospects, context);
+
+    if (!resolved) {
+      return;
+    }
+
+    const keepExisting = resolved.value !== representative.newValue;
+
+    for (const member of generatedMembers) {
+      finalTranslationsForFile.set(member.key, {
+        key: member.key,
+        value:
+          member === representative ? resolved.value : keepExisting ? (member.existingValue ?? legacyValue ?? member.newValue!) : member.newValue!,
+        source: member.source,
+        variantOf: base,
+      });
+    }
+  }
+
+  private getKeyStyle(file: I18nPluginFile): I18nPluginKeyStyle {
+    return file.config.keyStyle ?? (this.pluginConfig.indexFile?.initOptions?.keySeparator === false ? 'flat' : 'nested');
+  }
+
+  private getFileFormat(file: I18nPluginFile): I18nPluginFileFormat {
+    return file.config.format ?? jsonFileFormat;
+  }
+
+  private async readExistingTranslations(file: I18nPluginFile) {
+    const content = (await file.pollForExistingFileContent())?.content;
+
+    if (!content) {
+      return new Map<string, Translation>();
+    }
+
+    try {
+      return this.getFileFormat(file).parse(content);
+    } catch (e) {
+      return this.handleParseFailure(file, content, e);
+    }
+  }
+
+  private handleParseFailure(file: I18nPluginFile, content: string, error: unknown) {
+    const format = this.getFileFormat(file);
+    const failure: ParseFailure = {
+      fileName: file.config.fileName,
+      writePath: file.writePath,
+      language: getFileLanguage(file),
+      policy: file.config.parseFailurePolicy ?? 'abort',
+      message: getParseErrorMessage(error),
+      ...getParseErrorLocation(content, error),
+    };
 
+    if (failure.policy === 'tolerant' && format.parseTolerant) {
       try {
-        fileData = parseExistingValue((await file.pollForExistingFileContent())?.content);
-      } catch {}
+        const translations = format.parseTolerant(content);
 
-      const existingTranslationsInFile = gatherTranslations(fileData);
+        this.parseFailures.push(failure);
+
+        return translations;
+      } catch {
+        // Fall through to abort, reporting the original failure
+      }
+    }
+
+    if (failure.policy === 'backup') {
+      const backupFile = this.createPluginFile(
+        { directory: file.config.directory, fileName: `${file.config.fileName}.bak`, exportFromIndexFile: false },
+        defaultGeneratorFileReader,
+      );
+
+      backupFile.setRawContent(content);
+      this.backupFiles.push(backupFile);
+      this.parseFailures.push({ ...failure, backupFileName: backupFile.config.fileName });
+
+      return new Map<string, Translation>();
+    }
+
+    throw new Error(`I18nPlugin: failed to parse existing file ${formatParseFailure(failure)}`);
+  }
+
+  // loadPreviousState reads the previous run's state for rename migrations and orphaned key classification
+  private async loadPreviousState() {
+    const { migrateRenames, orphanedKeys } = this.pluginConfig;
+    if (!migrateRenames && !orphanedKeys) {
+      return;
+    }
+
+    const stateFileName = (migrateRenames && migrateRenames !== true ? migrateRenames.stateFileName : undefined) ?? this.config?.state?.fileName;
+
+    if (!stateFileName) {
+      return;
+    }
+
+    const stateFile = this.createPluginFile({ directory: '', fileName: stateFileName, exportFromIndexFile: false }, defaultGeneratorFileReader);
+
+    this.previousState = parsePreviousPluginState((await stateFile.pollForExistingFileContent())?.content, this.name);
+  }
+
+  private migrateRenamedTranslations(newTranslations: Map<string, Translation>, context: I18nPluginTranslationContext) {
+    if (!this.pluginConfig.migrateRenames || !this.previousState) {
+      return context.existingTranslations;
+    }
+
+    const migratedTranslations = new Map(context.existingTranslations);
+
+    for (const { previousKey, key, fullGrpcName } of findRenamedTranslationKeys(
+      context.existingTranslations,
+      newTranslations,
+      getPreviousWrittenTranslations(this.previousState, context.language, context.namespace),
+    )) {
+      migratedTranslations.set(key, { ...migratedTranslations.get(previousKey)!, key });
+      migratedTranslations.delete(previousKey);
+
+      this.migrations.push({
+        fileName: context.file.config.fileName,
+        namespace: context.namespace,
+        language: context.language,
+        fullGrpcName,
+        previousKey,
+        key,
+      });
+    }
+
+    return migratedTranslations;
+  }
+
+  // classifyExistingKeys records the classification of every key in the file, and returns the existing translations without orphans when pruning
+  private classifyExistingKeys(newTranslations: Map<string, Translation>, context: I18nPluginTranslationContext) {
+    const config = this.pluginConfig.orphanedKeys === true ? {} : this.pluginConfig.orphanedKeys;
+
+    if (!config) {
+      return context.existingTranslations;
+    }
+
+    const classifications = classifyTranslationKeys(
+      context.existingTranslations,
+      newTranslations,
+      config.managedPrefixes ?? DEFAULT_MANAGED_KEY_PREFIXES,
+      getPreviousTranslationKeys(this.previousState, context.language, context.namespace),
+    );
+    const pruned = config.prune ? classifications.orphaned : [];
+
+    this.keyClassifications.push({
+      fileName: context.file.config.fileName,
+      language: context.language,
+      namespace: context.namespace,
+      ...classifications,
+      pruned,
+    });
+
+    if (!pruned.length) {
+      return context.existingTranslations;
+    }
+
+    const prunedTranslations = new Map(context.existingTranslations);
+
+    for (const key of pruned) {
+      prunedTranslations.delete(key);
+    }
+
+    return prunedTranslations;
+  }
+
+  public getKeyClassifications(): TranslationFileKeyClassifications[] {
+    return this.keyClassifications;
+  }
+
+  public async run(): Promise<IPluginRunOutput<I18nPluginFile>> {
+    await this.loadPreviousState();
+
+    // Source language files are built first so their final values can be seeded into target language files
+    const filesInBuildOrder = sortByKey([...this.files], (file) => (this.isSourceLanguageFile(file) ? 0 : 1));
+
+    for (const file of filesInBuildOrder) {
+      const existingTranslations = await this.readExistingTranslations(file);
+
+      await this.loadSourceMetadataFile(file);
+
+      const context = this.buildTranslationContext(file, existingTranslations);
       const newTranslations: Map<string, Translation> = new Map();
 
       for (const [, schema] of this.generatedSchemas) {
         if (file.isFileForSchema(schema)) {
-          const translationPath =
-            typeof file.config.translationPathOrGetter === 'function'
-              ? file.config.translationPathOrGetter(schema)
-              : file.config.translationPathOrGetter || defaultTranslationPathOrGetter(schema);
+          const translationPath = this.getTranslationPath(schema, context);
 
           if (translationPath) {
             const translationsForSchema = file.config.translationWriter
-              ? file.config.translationWriter(schema, translationPath)
-              : defaultSchemaTranslationWriter(schema, translationPath);
+              ? file.config.translationWriter(schema, translationPath, context)
+              : defaultSchemaTranslationWriter(schema, translationPath, context);
+            const variants = file.config.variants?.(schema, context);
 
-            for (const translation of translationsForSchema || []) {
+            for (const translation of (translationsForSchema || []).flatMap((t) =>
+              variants ? expandTranslationVariants(t, variants, context.language) : [t],
+            )) {
               translation.source = schema;
-              newTranslations.set(translation.key, translation);
+              this.addNewTranslation(newTranslations, translation, context);
+            }
+          }
+        }
+      }
+
+      // Client functions are only translated when the file explicitly routes them with a clientFunctionFilter
+      if (file.config.clientFunctionFilter !== undefined) {
+        for (const clientFunction of this.generatedClientFunctions) {
+          if (file.isFileForGeneratedClientFunction(clientFunction)) {
+            const methodPath = this.getMethodTranslationPath(clientFunction, context);
+
+            if (methodPath) {
+              const translationsForMethod = file.config.methodTranslationWriter
+                ? file.config.methodTranslationWriter(clientFunction, methodPath, context)
+                : defaultMethodTranslationWriter(clientFunction, methodPath, context);
+
+              for (const translation of translationsForMethod || []) {
+                translation.clientFunctionSource = clientFunction;
+                this.addNewTranslation(newTranslations, translation, context);
+              }
             }
           }
         }
       }
 
-      file.setRawContent(this.mergeAndBuildTranslations(newTranslations, existingTranslationsInFile));
+      if (file.config.descriptions === 'keys') {
+        for (const [key, translation] of buildDescriptionTranslations(newTranslations)) {
+          newTranslations.set(key, translation);
+        }
+      } else if (file.config.descriptions === 'file' && this.isSourceLanguageFile(file)) {
+        this.generateContextFile(file, newTranslations);
+      }
+
+      context.existingTranslations = reconcileExistingTranslationKeys(context.existingTranslations, newTranslations);
+      context.existingTranslations = this.migrateRenamedTranslations(newTranslations, context);
+      this.existingTranslationsByFile.set(file, context.existingTranslations);
+      // Orphans are pruned after the existing translations are recorded, so check mode reports them as removed
+      context.existingTranslations = this.classifyExistingKeys(newTranslations, context);
+
+      file.setRawContent(
+        this.mergeAndBuildTranslations(
+          this.isSourceLanguageFile(file) ? newTranslations : this.seedTargetLanguageTranslations(newTranslations, context),
+          context,
+        ),
+      );
     }
 
     if (this.pluginConfig.defaultNamespaceFile) {
       await this.generateDefaultNamespaceFiles();
     }
 
+    // Pseudo-locale files are added before the index file so they're included as resources like any other language
+    if (this.pluginConfig.pseudoLocale) {
+      this.generatePseudoLocaleFiles();
+    }
+
     if (this.pluginConfig.indexFile) {
       this.generateIndexFile();
     }
 
-    const out = await this.buildFiles();
+    // Label helper, context and source metadata files are added after the index file so they aren't included as resources
+    if (this.pluginConfig.labelHelpersFile) {
+      this.generateLabelHelpersFile(filesInBuildOrder);
+    }
+
+    this.files.push(...this.contextFiles, ...this.backupFiles);
+    this.buildSourceMetadataFiles();
+
+    const out = (await this.buildFiles()).reduce<IWritableFile[]>((acc, curr) => (curr ? [...acc, curr] : acc), []);
+
+    if (this.pluginConfig.check) {
+      this.checkResult = this.buildCheckResult(out);
+
+      if (this.pluginConfig.check === 'error' && !this.checkResult.passed) {
+        throw new Error(`I18nPlugin: generated files are out of date\n${formatCheckResult(this.checkResult)}`);
+      }
+
+      // Nothing is written in check mode
+      return { files: [] };
+    }
 
     return {
-      files: out.reduce<IWritableFile[]>((acc, curr) => (curr ? [...acc, curr] : acc), []),
+      files: out,
     };
   }
 
+  private buildCheckResult(builtFiles: IWritableFile[]): I18nPluginCheckResult {
+    const translationFiles: TranslationFileCheck[] = [];
+
+    for (const [file, finalTranslations] of this.finalTranslationsByFile) {
+      const existingTranslations = this.existingTranslationsByFile.get(file) ?? new Map<string, Translation>();
+      const sourceFile = this.getSourceLanguageFile(file);
+      const sourceTranslations = sourceFile ? this.finalTranslationsByFile.get(sourceFile) : undefined;
+
+      translationFiles.push({
+        fileName: file.config.fileName,
+        writePath: file.writePath,
+        language: getFileLanguage(file),
+        namespace: this.getNamespaceName(file),
+        ...diffTranslations(existingTranslations, finalTranslations),
+        missing: sourceTranslations ? findMissingTranslations(existingTranslations, sourceTranslations) : [],
+      });
+    }
+
+    const outOfDateFiles = builtFiles.filter((file) => file.content !== file.preExistingContent).map((file) => file.writePath);
+
+    return {
+      outOfDateFiles,
+      translationFiles,
+      passed: !outOfDateFiles.length && translationFiles.every(isTranslationFileCheckPassing),
+    };
+  }
+
+  getCheckResult() {
+    return this.checkResult;
+  }
+
   private async generateDefaultNamespaceFile(language: string) {
     if (!this.pluginConfig.defaultNamespaceFile) {
       return;
@@ -191,21 +1005,37 @@ export class I18nPlugin extends BasePlugin<string, I18nPluginFileGeneratorConfig
         ...this.pluginConfig.defaultNamespaceFile,
         directory: `${this.pluginConfig.defaultNamespaceFile.directory}/${language}`,
         language,
+        sourceLanguage: this.pluginConfig.defaultNamespaceFile.languages[0],
         exportFromIndexFile: false,
       },
       defaultGeneratorFileReader,
     );
 
-    let fileData: ResourceLanguage | undefined;
+    const context = this.buildTranslationContext(defaultNamespaceFile, await this.readExistingTranslations(defaultNamespaceFile));
+    const newTranslations: Map<string, Translation> = new Map();
+    const { commonTranslationPathOrGetter, commonTranslationWriter, packageLabels } = this.pluginConfig.defaultNamespaceFile;
 
-    try {
-      fileData = parseExistingValue((await defaultNamespaceFile.pollForExistingFileContent())?.content);
-    } catch {}
+    for (const source of collectCommonTranslationSources(this.generatedSchemas, Boolean(packageLabels))) {
+      const path =
+        typeof commonTranslationPathOrGetter === 'function'
+          ? commonTranslationPathOrGetter(source, context)
+          : commonTranslationPathOrGetter || defaultCommonTranslationPathOrGetter(source, context);
 
-    const existingTranslationsInFile = gatherTranslations(fileData);
-    const newTranslations: Map<string, Translation> = new Map();
+      if (!path) {
+        continue;
+      }
+
+      const translations = commonTranslationWriter
+        ? commonTranslationWriter(source, path, context)
+        : defaultCommonTranslationWriter(source, path, context);
+
+      translations?.forEach((translation) => newTranslations.set(translation.key, translation));
+    }
+
+    this.existingTranslationsByFile.set(defaultNamespaceFile, context.existingTranslations);
+    context.existingTranslations = this.classifyExistingKeys(newTranslations, context);
 
-    defaultNamespaceFile.setRawContent(this.mergeAndBuildTranslations(newTranslations, existingTranslationsInFile));
+    defaultNamespaceFile.setRawContent(this.mergeAndBuildTranslations(newTranslations, context));
     this.files.push(defaultNamespaceFile);
   }
 
@@ -214,7 +1044,55 @@ export class I18nPlugin extends BasePlugin<string, I18nPluginFileGeneratorConfig
       return;
     }
 
-    await Promise.all(this.pluginConfig.defaultNamespaceFile.languages.map((language) => this.generateDefaultNamespaceFile(language)));
+    // Files are built one at a time, source language first, like the other translation files
+    for (const language of this.pluginConfig.defaultNamespaceFile.languages) {
+      await this.generateDefaultNamespaceFile(language);
+    }
+  }
+
+  private generatePseudoLocaleFiles() {
+    const config = this.pluginConfig.pseudoLocale === true ? {} : this.pluginConfig.pseudoLocale;
+
+    if (!config) {
+      return;
+    }
+
+    const language = config.language || I18N_DEFAULT_PSEUDO_LOCALE;
+    const pseudoLocaleFiles: I18nPluginFile[] = [];
+
+    for (const [file, finalTranslations] of this.finalTranslationsByFile) {
+      if (!this.isSourceLanguageFile(file)) {
+        continue;
+      }
+
+      const pseudoLocaleFile = this.createPluginFile(
+        {
+          ...file.config,
+          directory: `${this.getBaseDirectory(file)}/${language}`,
+          language,
+          sourceLanguage: getFileLanguage(file),
+          exportFromIndexFile: false,
+        },
+        defaultGeneratorFileReader,
+      );
+      const context = this.buildTranslationContext(pseudoLocaleFile, new Map());
+      const pseudoLocaleTranslations = buildPseudoLocaleTranslations(finalTranslations, config);
+
+      pseudoLocaleFile.setRawContent(
+        this.getFileFormat(pseudoLocaleFile).serialize(
+          sortByKey(Array.from(pseudoLocaleTranslations.values()), (translation) => translation.key),
+          {
+            ...context,
+            keyStyle: this.getKeyStyle(pseudoLocaleFile),
+            sourceLanguage: getFileLanguage(file),
+            sourceTranslations: finalTranslations,
+          },
+        ),
+      );
+      pseudoLocaleFiles.push(pseudoLocaleFile);
+    }
+
+    this.files.push(...pseudoLocaleFiles);
   }
 
   private generateIndexFile() {
@@ -222,7 +1100,9 @@ export class I18nPlugin extends BasePlugin<string, I18nPluginFileGeneratorConfig
       return;
     }
 
-    const { addGeneratedResources, initOptions, middleware, ...defaultFileConfig } = this.pluginConfig.indexFile;
+    const { addGeneratedResources, customTypeOptions, initOptions, middleware, namespaceAccessors, resourceLoading, ...defaultFileConfig } =
+      this.pluginConfig.indexFile;
+    const isLazy = resourceLoading === 'lazy';
 
     const indexFile = this.createPluginFile(
       {
@@ -235,35 +1115,63 @@ export class I18nPlugin extends BasePlugin<string, I18nPluginFileGeneratorConfig
     indexFile.addManualImport(I18NEXT_IMPORT_PATH, [], [], I18NEXT_DEFAULT_EXPORT_NAME);
 
     const resourcesByLanguageAndNamespace: Record<string, Record<string, string>> = {};
+    const lazyImportPathsByLanguageAndNamespace: Record<string, Record<string, string>> = {};
     const { resources = {}, ...remainingInitOptions } = initOptions || {};
 
     if (addGeneratedResources) {
-      const filesToAdd = this.files.filter((file) => file.getHasContent());
+      // Only JSON files can be imported as resources, files in other formats are left for an i18next backend to load
+      const filesToAdd = this.files.filter((file) => file.getHasContent() && this.getFileFormat(file).name === jsonFileFormat.name);
 
       if (filesToAdd.length) {
         for (const file of filesToAdd) {
-          if (!resourcesByLanguageAndNamespace[file.config.language]) {
-            resourcesByLanguageAndNamespace[file.config.language] = {};
+          const language = getFileLanguage(file);
+
+          if (!resourcesByLanguageAndNamespace[language]) {
+            resourcesByLanguageAndNamespace[language] = {};
           }
 
-          const languageResources = resourcesByLanguageAndNamespace[file.config.language]!;
-          const namespaceName = file.config.namespaceName || this.pluginConfig.namespaceWriter(file);
-          const resourceSpecifier = camelCase(`${file.config.language}_${namespaceName}_NS`);
+          const languageResources = resourcesByLanguageAndNamespace[language]!;
+          const namespaceName = this.getNamespaceName(file);
+          const resourceSpecifier = camelCase(`${language}_${namespaceName}_NS`);
 
           languageResources[namespaceName] = resourceSpecifier;
 
-          indexFile.addImportToOtherGeneratedFile(file, undefined, undefined, resourceSpecifier);
+          if (isLazy) {
+            lazyImportPathsByLanguageAndNamespace[language] = {
+              ...lazyImportPathsByLanguageAndNamespace[language],
+              [namespaceName]: getImportPath(file.config.directory, file.config.fileName, defaultFileConfig.directory, defaultFileConfig.fileName),
+            };
+          } else {
+            indexFile.addImportToOtherGeneratedFile(file, undefined, undefined, resourceSpecifier);
+          }
         }
       }
     }
 
-    const resourcesObjectLiteral = buildResourcesObjectLiteral(resources, resourcesByLanguageAndNamespace);
+    // Lazy loaded resources are left out of initOptions.resources, which then only has the eagerly provided resources
+    const resourcesObjectLiteral = buildResourcesObjectLiteral(resources, isLazy ? {} : resourcesByLanguageAndNamespace);
 
     // The index file is slightly different from the other files generated by this plugin, so just casting to any for now
     this.files.push(indexFile as any);
 
     let callExpression: ts.CallExpression | undefined;
 
+    if (isLazy) {
+      const lazyResourceTypeNames = [I18NEXT_BACKEND_MODULE_TYPE_NAME, I18NEXT_RESOURCE_KEY_TYPE_NAME];
+
+      indexFile.addManualImport(I18NEXT_IMPORT_PATH, lazyResourceTypeNames, lazyResourceTypeNames);
+      indexFile.addNodes(...buildLazyResourceNodes(lazyImportPathsByLanguageAndNamespace));
+
+      callExpression = factory.createCallExpression(
+        factory.createPropertyAccessExpression(
+          factory.createIdentifier(I18NEXT_DEFAULT_EXPORT_NAME),
+          factory.createIdentifier(I18NEXT_USE_FUNCTION_NAME),
+        ),
+        undefined,
+        [factory.createIdentifier(I18N_RESOURCES_BACKEND_VAR_NAME)],
+      );
+    }
+
     // Configure middleware
     for (const m of middleware || []) {
       indexFile.addManualImport(m.importPath, m.isDefault ? undefined : [m.importSpecifier], [], m.isDefault ? m.importSpecifier : undefined);
@@ -285,6 +1193,22 @@ export class I18nPlugin extends BasePlugin<string, I18nPluginFileGeneratorConfig
       factory.createLiteralTypeNode(factory.createStringLiteral('resources', true)),
     );
 
+    // getLanguageResourcesTypes returns the types of the resources for a language, lazy loaded resources first
+    const getLanguageResourcesTypes = (language: string): ts.TypeNode[] => {
+      const languageLiteral = factory.createLiteralTypeNode(factory.createStringLiteral(language, true));
+
+      if (!isLazy) {
+        return [factory.createIndexedAccessTypeNode(resourcesAccess, languageLiteral)];
+      }
+
+      return [
+        ...(lazyImportPathsByLanguageAndNamespace[language]
+          ? [factory.createTypeReferenceNode(I18N_LAZY_RESOURCES_TYPE_NAME, [languageLiteral])]
+          : []),
+        ...(resources[language] ? [factory.createIndexedAccessTypeNode(resourcesAccess, languageLiteral)] : []),
+      ];
+    };
+
     if (this.pluginConfig.defaultNamespaceFile) {
       indexFile.addNodes(
         factory.createVariableStatement(
@@ -300,6 +1224,8 @@ export class I18nPlugin extends BasePlugin<string, I18nPluginFileGeneratorConfig
                     ...remainingInitOptions,
                     resources: resourcesObjectLiteral,
                     defaultNS: this.pluginConfig.defaultNamespaceFile.namespaceName,
+                    // Provided resources only cover some namespaces when the rest are lazy loaded
+                    ...(isLazy && Object.keys(resources).length ? { partialBundledLanguages: true } : {}),
                   }),
                   factory.createTypeReferenceNode('const'),
                 ),
@@ -318,10 +1244,9 @@ export class I18nPlugin extends BasePlugin<string, I18nPluginFileGeneratorConfig
         I18N_NAMESPACES_TYPE_NAME,
         undefined,
         factory.createUnionTypeNode(
-          builtLanguages.map((lang) =>
-            ts.factory.createTypeOperatorNode(
-              ts.SyntaxKind.KeyOfKeyword,
-              factory.createIndexedAccessTypeNode(resourcesAccess, factory.createLiteralTypeNode(factory.createStringLiteral(lang, true))),
+          builtLanguages.flatMap((lang) =>
+            getLanguageResourcesTypes(lang).map((languageResources) =>
+              ts.factory.createTypeOperatorNode(ts.SyntaxKind.KeyOfKeyword, languageResources),
             ),
           ),
         ),
@@ -329,6 +1254,44 @@ export class I18nPlugin extends BasePlugin<string, I18nPluginFileGeneratorConfig
       factory.createIdentifier('\n'),
     );
 
+    // Namespace accessors are only typed by the namespace's keys with the CustomTypeOptions augmentation, so it's enabled with them
+    const customTypeOptionsLanguage = match(customTypeOptions ?? namespaceAccessors)
+      .with(P.union(P.nullish, false), () => undefined)
+      .with({ language: P.string }, ({ language }) => language)
+      .otherwise(() => builtLanguages[0]);
+
+    if (customTypeOptionsLanguage) {
+      const initOptsAccess = (property: string) =>
+        factory.createIndexedAccessTypeNode(
+          factory.createTypeQueryNode(factory.createIdentifier(I18N_INIT_OPTS_VAR_NAME)),
+          factory.createLiteralTypeNode(factory.createStringLiteral(property, true)),
+        );
+
+      indexFile.addNodes(
+        factory.createModuleDeclaration(
+          [factory.createModifier(ts.SyntaxKind.DeclareKeyword)],
+          factory.createStringLiteral(I18NEXT_IMPORT_PATH, true),
+          factory.createModuleBlock([
+            factory.createInterfaceDeclaration(undefined, I18NEXT_CUSTOM_TYPE_OPTIONS_INTERFACE_NAME, undefined, undefined, [
+              ...(this.pluginConfig.defaultNamespaceFile?.namespaceName
+                ? [factory.createPropertySignature(undefined, 'defaultNS', undefined, initOptsAccess('defaultNS'))]
+                : []),
+              ...(initOptions?.keySeparator === false
+                ? [factory.createPropertySignature(undefined, 'keySeparator', undefined, factory.createLiteralTypeNode(factory.createFalse()))]
+                : []),
+              factory.createPropertySignature(
+                undefined,
+                'resources',
+                undefined,
+                factory.createIntersectionTypeNode(getLanguageResourcesTypes(customTypeOptionsLanguage)),
+              ),
+            ]),
+          ]),
+        ),
+        factory.createIdentifier('\n'),
+      );
+    }
+
     callExpression = factory.createCallExpression(
       factory.createPropertyAccessExpression(
         callExpression || factory.createIdentifier(I18NEXT_DEFAULT_EXPORT_NAME),
@@ -340,11 +1303,94 @@ export class I18nPlugin extends BasePlugin<string, I18nPluginFileGeneratorConfig
 
     indexFile.addNodes(callExpression, factory.createIdentifier('\n'));
 
+    if (namespaceAccessors) {
+      const namespaces = sortByKey(
+        Array.from(
+          new Set([...Object.values(resourcesByLanguageAndNamespace), ...Object.values(resources)].flatMap((namespaces) => Object.keys(namespaces))),
+        ),
+        (namespace) => namespace,
+      );
+      const withHooks = Boolean(middleware?.some((m) => m.importPath === REACT_I18NEXT_IMPORT_PATH));
+
+      if (withHooks) {
+        indexFile.addManualImport(REACT_I18NEXT_IMPORT_PATH, [REACT_I18NEXT_USE_TRANSLATION_FUNCTION_NAME]);
+      }
+
+      indexFile.addNodes(...buildNamespaceAccessorNodes(namespaces, withHooks));
+    }
+
     indexFile.addManualExport(undefined, { namedExports: [I18NEXT_DEFAULT_EXPORT_NAME], typeOnlyExports: [] });
     indexFile.generateHeading();
   }
 
+  private generateLabelHelpersFile(translationFiles: I18nPluginFile[]) {
+    if (!this.pluginConfig.labelHelpersFile) {
+      return;
+    }
+
+    const labelHelpersFile = this.createPluginFile({ ...this.pluginConfig.labelHelpersFile, exportFromIndexFile: false }, defaultGeneratorFileReader);
+    const labelHelperSchemas = new Map<string, LabelHelperSchema>();
+
+    for (const file of translationFiles) {
+      const finalTranslations = this.finalTranslationsByFile.get(file);
+
+      if (!this.isSourceLanguageFile(file) || !finalTranslations) {
+        continue;
+      }
+
+      const context = this.buildTranslationContext(file, finalTranslations);
+      const variantBases = new Set(Array.from(finalTranslations.values()).map((translation) => translation.variantOf));
+
+      for (const [, schema] of this.generatedSchemas) {
+        const translationPath = file.isFileForSchema(schema) ? this.getTranslationPath(schema, context) : undefined;
+        const valueNames = translationPath ? getSchemaTranslationValueNames(schema) : undefined;
+
+        if (!translationPath || !valueNames?.length || labelHelperSchemas.has(schema.generatedName)) {
+          continue;
+        }
+
+        const keys = Object.fromEntries(valueNames.map((valueName) => [valueName, `${translationPath}.${escapeKeySegment(valueName)}`]));
+
+        // Helpers are only generated for schemas with a translation, or variants of one, written for each of their values
+        if (Object.values(keys).every((key) => finalTranslations.has(key) || variantBases.has(key))) {
+          labelHelperSchemas.set(schema.generatedName, {
+            schema,
+            namespace: this.getNamespaceName(file),
+            keys: Object.fromEntries(Object.entries(keys).map(([valueName, key]) => [valueName, getDisplayKey(key)])),
+          });
+        }
+      }
+    }
+
+    if (!labelHelperSchemas.size) {
+      return;
+    }
+
+    labelHelpersFile.addManualImport(I18NEXT_IMPORT_PATH, [I18NEXT_T_FUNCTION_TYPE_NAME], [I18NEXT_T_FUNCTION_TYPE_NAME]);
+
+    for (const labelHelperSchema of sortByKey(Array.from(labelHelperSchemas.values()), (entry) => entry.schema.generatedName)) {
+      const valueTypeName = getLabelHelperValueTypeName(labelHelperSchema.schema);
+
+      if (valueTypeName) {
+        labelHelpersFile.addGeneratedTypeImport(valueTypeName);
+      }
+
+      labelHelpersFile.addNodes(...buildLabelHelperNodes(labelHelperSchema));
+    }
+
+    labelHelpersFile.generateHeading();
+
+    this.files.push(labelHelpersFile);
+  }
+
   getState(): I18nPluginState | undefined {
-    return buildState(this.writtenTranslations);
+    return buildState(this.writtenTranslationFiles, {
+      keyCollisions: this.keyCollisions.length ? this.keyCollisions : undefined,
+      migrations: this.migrations.length ? this.migrations : undefined,
+      staleTranslations: this.staleTranslations.length ? this.staleTranslations : undefined,
+      check: this.checkResult,
+      keyClassifications: this.keyClassifications.length ? this.keyClassifications : undefined,
+      parseFailures: this.parseFailures.length ? this.parseFailures : undefined,
+    });
   }
 }
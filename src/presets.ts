@@ -0,0 +1,91 @@
+import type { GeneratedSchema, PackageSummary } from '@pentops/jsonapi-jdef-ts-generator';
+import { match, P } from 'ts-pattern';
+import { kebabCase } from 'change-case';
+import { sortByKey } from '@pentops/sort-helpers';
+import type { I18nPluginFileConfigCreator, I18nPluginFileGeneratorConfig } from './plugin';
+
+export type I18nPluginSchemaKind = 'enum' | 'object' | 'oneOf' | 'polymorph';
+
+export interface I18nPluginFilePresetGroup {
+  // name is the package label or name, top-level package name, or schema kind the group's schemas were grouped by
+  name: string;
+  package?: PackageSummary;
+}
+
+export interface I18nPluginFilePresetConfig extends Omit<I18nPluginFileGeneratorConfig, 'fileName' | 'schemaFilter'> {
+  // fileNameWriter names the file for each group, defaults to the kebab cased group name with a .json extension
+  fileNameWriter?: (group: I18nPluginFilePresetGroup) => string;
+  // schemaFilter limits which translatable schemas are included in any file
+  schemaFilter?: (schema: GeneratedSchema) => boolean;
+}
+
+export const defaultPresetFileNameWriter = (group: I18nPluginFilePresetGroup) => `${kebabCase(group.name)}.json`;
+
+// getTranslatableSchemaKind returns the kind of schema the default translation writer writes values for, objects only with objectPropertyLabels
+export function getTranslatableSchemaKind(schema: GeneratedSchema, config: Pick<I18nPluginFileGeneratorConfig, 'objectPropertyLabels'>) {
+  return match(schema)
+    .returnType<I18nPluginSchemaKind | undefined>()
+    .with({ rawSchema: { enum: P.not(P.nullish) } }, (s) => (s.rawSchema.enum.derivedHelperType ? undefined : 'enum'))
+    .with({ rawSchema: { oneOf: P.not(P.nullish) } }, () => 'oneOf')
+    .with({ rawSchema: { polymorph: { members: P.not(P.nullish) } } }, () => 'polymorph')
+    .with({ rawSchema: { object: P.not(P.nullish) } }, () => (config.objectPropertyLabels ? 'object' : undefined))
+    .otherwise(() => undefined);
+}
+
+/**
+ * Builds a file config creator with one file per group of translatable schemas. Groups that share a file name are merged
+ * into one file, and each file's schemaFilter matches the schemas in its group by their generated name.
+ */
+export function createFilePreset(
+  config: I18nPluginFilePresetConfig,
+  getGroup: (schema: GeneratedSchema) => I18nPluginFilePresetGroup | undefined,
+): I18nPluginFileConfigCreator {
+  const { fileNameWriter = defaultPresetFileNameWriter, schemaFilter, ...fileConfig } = config;
+
+  return (generatedSchemas) => {
+    const schemaNamesByFileName = new Map<string, Set<string>>();
+
+    for (const [, schema] of generatedSchemas) {
+      if (!getTranslatableSchemaKind(schema, fileConfig) || (schemaFilter && !schemaFilter(schema))) {
+        continue;
+      }
+
+      const group = getGroup(schema);
+
+      if (!group) {
+        continue;
+      }
+
+      const fileName = fileNameWriter(group);
+
+      schemaNamesByFileName.set(fileName, (schemaNamesByFileName.get(fileName) || new Set()).add(schema.generatedName));
+    }
+
+    return sortByKey(Array.from(schemaNamesByFileName.entries()), ([fileName]) => fileName).map(([fileName, schemaNames]) => ({
+      ...fileConfig,
+      fileName,
+      schemaFilter: (schema: GeneratedSchema) => schemaNames.has(schema.generatedName),
+    }));
+  };
+}
+
+// byPackage writes one file per package, named by the package's label when it has one
+export function byPackage(config: I18nPluginFilePresetConfig) {
+  return createFilePreset(config, (schema) =>
+    schema.parentPackage ? { name: schema.parentPackage.label || schema.parentPackage.package, package: schema.parentPackage } : undefined,
+  );
+}
+
+// byTopLevelPackage writes one file per top-level proto package, e.g. `foo` for `foo.v1` and `foo.admin.v1`
+export function byTopLevelPackage(config: I18nPluginFilePresetConfig) {
+  return createFilePreset(config, (schema) => (schema.parentPackage ? { name: schema.parentPackage.package.split('.')[0]! } : undefined));
+}
+
+// bySchemaKind writes one file per kind of translatable schema, e.g. `enum.json` and `one-of.json`
+export function bySchemaKind(config: I18nPluginFilePresetConfig) {
+  return createFilePreset(config, (schema) => {
+    const kind = getTranslatableSchemaKind(schema, config);
+
+    return kind ? { name: kind } : undefined;
+  });
+}
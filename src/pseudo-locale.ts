@@ -0,0 +1,99 @@
+import type { Translation } from './helpers';
+
+export const I18N_DEFAULT_PSEUDO_LOCALE = 'en-XA';
+
+export interface I18nPluginPseudoLocaleConfig {
+  // accents replaces letters with accented lookalikes, defaults to true
+  accents?: boolean;
+  // brackets are added around each value, so truncated strings are easy to spot, defaults to `[` and `]`
+  brackets?: [string, string];
+  // expansion is the fraction of each value's length that is added as padding, to simulate longer languages, defaults to 0.3
+  expansion?: number;
+  // language is the pseudo-locale's language code, defaults to en-XA
+  language?: string;
+}
+
+const ACCENTED_CHARACTERS: Record<string, string> = {
+  a: 'á',
+  b: 'ƀ',
+  c: 'ç',
+  d: 'ð',
+  e: 'é',
+  f: 'ƒ',
+  g: 'ĝ',
+  h: 'ĥ',
+  i: 'í',
+  j: 'ĵ',
+  k: 'ķ',
+  l: 'ļ',
+  m: 'ɱ',
+  n: 'ñ',
+  o: 'ó',
+  p: 'þ',
+  q: 'ǫ',
+  r: 'ŕ',
+  s: 'š',
+  t: 'ţ',
+  u: 'ú',
+  v: 'ṽ',
+  w: 'ŵ',
+  x: 'ẋ',
+  y: 'ý',
+  z: 'ž',
+  A: 'Á',
+  B: 'Ɓ',
+  C: 'Ç',
+  D: 'Ð',
+  E: 'É',
+  F: 'Ƒ',
+  G: 'Ĝ',
+  H: 'Ĥ',
+  I: 'Í',
+  J: 'Ĵ',
+  K: 'Ķ',
+  L: 'Ļ',
+  M: 'Ṁ',
+  N: 'Ñ',
+  O: 'Ó',
+  P: 'Þ',
+  Q: 'Ǫ',
+  R: 'Ŕ',
+  S: 'Š',
+  T: 'Ţ',
+  U: 'Ú',
+  V: 'Ṽ',
+  W: 'Ŵ',
+  X: 'Ẋ',
+  Y: 'Ý',
+  Z: 'Ž',
+};
+
+const EXPANSION_PADDING = '~';
+
+// I18NEXT_PLACEHOLDER_PATTERN matches interpolation (`{{value}}`), nesting (`$t(key)`) and Trans component tags, which are left intact
+const I18NEXT_PLACEHOLDER_PATTERN = /(\{\{[^}]*\}\}|\$t\([^)]*\)|<\/?[\w-]+\s*\/?>)/;
+
+export function pseudoLocalizeValue(value: string, config: I18nPluginPseudoLocaleConfig = {}) {
+  const { accents = true, brackets = ['[', ']'], expansion = 0.3 } = config;
+  let textLength = 0;
+
+  const pseudoLocalized = value
+    .split(I18NEXT_PLACEHOLDER_PATTERN)
+    .map((part, i) => {
+      // Split with a capture group puts the placeholders at odd indexes
+      if (i % 2 === 1) {
+        return part;
+      }
+
+      textLength += part.length;
+
+      return accents ? part.replace(/[A-Za-z]/g, (char) => ACCENTED_CHARACTERS[char] ?? char) : part;
+    })
+    .join('');
+
+  return `${brackets[0]}${pseudoLocalized}${EXPANSION_PADDING.repeat(Math.ceil(textLength * expansion))}${brackets[1]}`;
+}
+
+export function buildPseudoLocaleTranslations(translations: Map<string, Translation>, config: I18nPluginPseudoLocaleConfig = {}) {
+  return new Map(Array.from(translations, ([key, translation]) => [key, { ...translation, value: pseudoLocalizeValue(translation.value, config) }]));
+}
@@ -0,0 +1,72 @@
+import { createHash } from 'crypto';
+import { Translation } from './helpers';
+
+export interface SourceMetadataEntry {
+  // sourceHash is the hash of the source language value the translation was made against
+  sourceHash: string;
+  sourceValue: string;
+  value: string;
+  stale?: boolean;
+}
+
+// SourceMetadata is keyed by language, then by translation key
+export type SourceMetadata = Record<string, Record<string, SourceMetadataEntry>>;
+
+export interface StaleTranslation {
+  fileName: string;
+  namespace: string;
+  language: string;
+  key: string;
+  value: string;
+  sourceValue: string;
+  previousSourceValue: string;
+}
+
+export function hashSourceValue(value: string) {
+  return createHash('sha1').update(value).digest('hex');
+}
+
+export function parseSourceMetadata(value: string | undefined): SourceMetadata {
+  if (!value) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    throw new Error(`I18nPlugin: failed to parse source metadata: ${value}. ${e}`);
+  }
+}
+
+/**
+ * Compares the translations for a target language against the current source language translations. A translation is
+ * stale when the source value has changed since it was recorded and the target value hasn't been updated since.
+ */
+export function trackSourceValues(
+  translations: Map<string, Translation>,
+  sourceTranslations: Map<string, Translation>,
+  previousMetadata: Record<string, SourceMetadataEntry> = {},
+) {
+  const metadata: Record<string, SourceMetadataEntry> = {};
+  const staleKeys: string[] = [];
+
+  for (const [key, translation] of translations) {
+    const sourceTranslation = sourceTranslations.get(key);
+
+    if (!sourceTranslation) {
+      continue;
+    }
+
+    const sourceHash = hashSourceValue(sourceTranslation.value);
+    const previousEntry = previousMetadata[key];
+
+    if (previousEntry && previousEntry.sourceHash !== sourceHash && previousEntry.value === translation.value) {
+      metadata[key] = { ...previousEntry, stale: true };
+      staleKeys.push(key);
+    } else {
+      metadata[key] = { sourceHash, sourceValue: sourceTranslation.value, value: translation.value };
+    }
+  }
+
+  return { metadata, staleKeys };
+}
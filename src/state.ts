@@ -1,76 +1,162 @@
+import type { GeneratedSchema, ParsedEnum } from '@pentops/jsonapi-jdef-ts-generator';
 import { Translation } from './helpers';
 import { match, P } from 'ts-pattern';
+import { StaleTranslation } from './source-metadata';
+import { KeyCollision } from './collisions';
+import { I18nPluginCheckResult } from './check';
+import { ParseFailure } from './parse-failures';
+import { TranslationMigration } from './migrations';
+import { TranslationFileKeyClassifications } from './orphans';
+
+export type WrittenTranslationSource =
+  | {
+      enum: {
+        fullGrpcName: string;
+        generatedName: string;
+        values: Record<string, string>;
+        // numbers maps enum option names to their numbers, so renamed options can be matched up
+        numbers?: Record<string, number>;
+      };
+    }
+  | {
+      oneOf: {
+        fullGrpcName: string;
+        generatedName: string;
+        values: string[];
+      };
+    }
+  | {
+      polymorph: {
+        fullGrpcName: string;
+        generatedName: string;
+        members?: string[];
+      };
+    }
+  | {
+      object: {
+        fullGrpcName: string;
+        generatedName: string;
+        properties: string[];
+      };
+    }
+  | {
+      method: {
+        fullGrpcName: string;
+        generatedName: string;
+      };
+    };
 
 export interface WrittenTranslation {
   key: string;
   value: string;
-  source?:
-    | {
-        enum: {
-          fullGrpcName: string;
-          generatedName: string;
-          values: Record<string, string>;
-        };
-      }
-    | {
-        oneOf: {
-          fullGrpcName: string;
-          generatedName: string;
-          values: string[];
-        };
-      }
-    | {
-        polymorph: {
-          fullGrpcName: string;
-          generatedName: string;
-          members?: string[];
-        };
-      };
+  // file is the path the translation was written to, relative to the generator's working directory
+  file: string;
+  source?: WrittenTranslationSource;
 }
 
-export interface I18nPluginState {
-  translationsWritten: Record<string, WrittenTranslation>;
+// WrittenTranslations are keyed by language, then namespace, then translation key
+export type WrittenTranslations = Record<string, Record<string, Record<string, WrittenTranslation>>>;
+
+export interface WrittenTranslationFile {
+  file: string;
+  language: string;
+  namespace: string;
+  translations: Translation[];
+  // previousSources are the sources the previous run recorded for translations written without one, by translation key
+  previousSources?: Record<string, WrittenTranslationSource>;
 }
 
-export function buildState(translationsWritten: Record<string, Translation>): I18nPluginState {
+export interface I18nPluginStateReport {
+  check?: I18nPluginCheckResult;
+  keyClassifications?: TranslationFileKeyClassifications[];
+  keyCollisions?: KeyCollision[];
+  migrations?: TranslationMigration[];
+  parseFailures?: ParseFailure[];
+  staleTranslations?: StaleTranslation[];
+}
+
+export interface I18nPluginState extends I18nPluginStateReport {
+  translationsWritten: WrittenTranslations;
+}
+
+// getEnumValueNames maps generated enum key names to option names, or option names to themselves when the enum has no generated key names
+function getEnumValueNames(schema: GeneratedSchema, options: ParsedEnum['enum']['options']): Map<string, string> {
+  return match(schema)
+    .with({ generatedValueNames: P.not(P.nullish) }, (s) => s.generatedValueNames)
+    .otherwise(() => new Map(options.map((option) => [option.name, option.name])));
+}
+
+function getWrittenTranslationSource(translation: Translation): WrittenTranslationSource | undefined {
+  if (translation.clientFunctionSource) {
+    return {
+      method: {
+        fullGrpcName: translation.clientFunctionSource.method.rawMethod.fullGrpcName,
+        generatedName: translation.clientFunctionSource.generatedName,
+      },
+    };
+  }
+
+  return match(translation.source)
+    .returnType<WrittenTranslationSource | undefined>()
+    .with({ rawSchema: { enum: { derivedHelperType: P.not(P.nullish) } } }, (s) => ({
+      oneOf: {
+        fullGrpcName: s.rawSchema.enum.fullGrpcName,
+        generatedName: s.generatedName,
+        values: Array.from(getEnumValueNames(s, s.rawSchema.enum.options).keys()),
+      },
+    }))
+    .with({ rawSchema: { enum: P.not(P.nullish) } }, (s) => ({
+      enum: {
+        fullGrpcName: s.rawSchema.enum.fullGrpcName,
+        generatedName: s.generatedName,
+        values: Object.fromEntries(getEnumValueNames(s, s.rawSchema.enum.options).entries()),
+        numbers: Object.fromEntries(
+          s.rawSchema.enum.options.flatMap((option) => (option.number !== undefined ? [[option.name, option.number]] : [])),
+        ),
+      },
+    }))
+    .with({ rawSchema: { oneOf: P.not(P.nullish) } }, (s) => ({
+      oneOf: {
+        fullGrpcName: s.rawSchema.oneOf.fullGrpcName,
+        generatedName: s.generatedName,
+        values: Array.from(s.rawSchema.oneOf.properties.values()).map((property) => property.name),
+      },
+    }))
+    .with({ rawSchema: { polymorph: P.not(P.nullish) } }, (s) => ({
+      polymorph: {
+        fullGrpcName: s.rawSchema.polymorph.fullGrpcName,
+        generatedName: s.generatedName,
+        members: s.rawSchema.polymorph.members,
+      },
+    }))
+    .with({ rawSchema: { object: P.not(P.nullish) } }, (s) => ({
+      object: {
+        fullGrpcName: s.rawSchema.object.fullGrpcName,
+        generatedName: s.generatedName,
+        properties: Array.from(s.rawSchema.object.properties.values()).map((property) => property.name),
+      },
+    }))
+    .otherwise(() => undefined);
+}
+
+export function buildState(writtenFiles: WrittenTranslationFile[], report: I18nPluginStateReport = {}): I18nPluginState {
+  const translationsWritten: WrittenTranslations = {};
+
+  for (const { file, language, namespace, translations, previousSources } of writtenFiles) {
+    const namespaceTranslations = ((translationsWritten[language] ??= {})[namespace] ??= {});
+
+    for (const translation of translations) {
+      namespaceTranslations[translation.key] = {
+        key: translation.key,
+        value: translation.value,
+        file,
+        source: getWrittenTranslationSource(translation) ?? previousSources?.[translation.key],
+      };
+    }
+  }
+
   return {
-    translationsWritten: Object.entries(translationsWritten).reduce<Record<string, WrittenTranslation>>((acc, [key, value]) => {
-      return match(value.source)
-        .with({ generatedValueNames: P.not(P.nullish), rawSchema: { enum: { derivedHelperType: P.nullish } } }, (s) => ({
-          ...acc,
-          [key]: {
-            key,
-            value: value.value,
-            source: {
-              enum: {
-                fullGrpcName: s.rawSchema.enum.fullGrpcName,
-                generatedName: s.generatedName,
-                values: Object.fromEntries(s.generatedValueNames.entries()),
-              },
-            },
-          },
-        }))
-        .with({ generatedValueNames: P.not(P.nullish), rawSchema: { enum: { derivedHelperType: P.not(P.nullish) } } }, (s) => ({
-          ...acc,
-          [key]: {
-            key,
-            value: value.value,
-            source: {
-              oneOf: {
-                fullGrpcName: s.rawSchema.enum.fullGrpcName,
-                generatedName: s.generatedName,
-                values: Array.from(s.generatedValueNames.keys()),
-              },
-            },
-          },
-        }))
-        .otherwise(() => ({
-          ...acc,
-          [key]: {
-            key,
-            value: value.value,
-          },
-        }));
-    }, {}),
+    ...report,
+    translationsWritten,
   };
 }
@@ -0,0 +1,99 @@
+import { capitalCase, constantCase } from 'change-case';
+import type { GeneratedSchema } from '@pentops/jsonapi-jdef-ts-generator';
+import { match, P } from 'ts-pattern';
+
+// I18nPluginValueCase is `title` for "Pending Review", `sentence` for "Pending review", or `none` to keep the name's own words and casing
+export type I18nPluginValueCase = 'title' | 'sentence' | 'none';
+
+export interface I18nPluginValueFormatterConfig {
+  // acronyms maps lower cased words to how they're always written, defaults to DEFAULT_VALUE_ACRONYMS
+  acronyms?: Record<string, string>;
+  // case defaults to title
+  case?: I18nPluginValueCase;
+  // minorWords are lower cased in title case, unless they're the first word, defaults to DEFAULT_VALUE_MINOR_WORDS
+  minorWords?: string[];
+  // stripEnumPrefix removes the enum's own prefix (e.g. `ORDER_STATUS_`) from option names, defaults to true
+  stripEnumPrefix?: boolean;
+}
+
+export const DEFAULT_VALUE_ACRONYMS: Record<string, string> = {
+  api: 'API',
+  id: 'ID',
+  jwt: 'JWT',
+  url: 'URL',
+};
+
+export const DEFAULT_VALUE_MINOR_WORDS = [
+  'a',
+  'an',
+  'and',
+  'as',
+  'at',
+  'but',
+  'by',
+  'for',
+  'if',
+  'in',
+  'nor',
+  'of',
+  'off',
+  'on',
+  'or',
+  'per',
+  'so',
+  'the',
+  'to',
+  'up',
+  'via',
+  'with',
+  'yet',
+];
+
+export function formatValueName(name: string, config: I18nPluginValueFormatterConfig = {}) {
+  const { acronyms = DEFAULT_VALUE_ACRONYMS, case: valueCase = 'title', minorWords = DEFAULT_VALUE_MINOR_WORDS } = config;
+
+  if (valueCase === 'none') {
+    return name;
+  }
+
+  return capitalCase(name)
+    .split(' ')
+    .map((word, i) => {
+      const lowerCasedWord = word.toLowerCase();
+
+      if (acronyms[lowerCasedWord]) {
+        return acronyms[lowerCasedWord];
+      }
+
+      if (i !== 0 && (valueCase === 'sentence' || minorWords.includes(lowerCasedWord))) {
+        return lowerCasedWord;
+      }
+
+      return word;
+    })
+    .join(' ');
+}
+
+// getEnumPrefix returns the enum's declared prefix, or one derived from its name when it doesn't declare one
+function getEnumPrefix(schema: GeneratedSchema) {
+  return match(schema)
+    .with({ rawSchema: { enum: P.not(P.nullish) } }, (s) => s.rawSchema.enum.prefix || `${constantCase(s.rawSchema.enum.name)}_`)
+    .otherwise(() => undefined);
+}
+
+export function stripEnumPrefix(name: string, prefix: string) {
+  return name.startsWith(prefix) && name.length > prefix.length ? name.slice(prefix.length) : name;
+}
+
+/**
+ * Formats a name written for a schema as a translation value. Enum option names have the enum's prefix stripped first, and
+ * polymorph members, which are full gRPC names, are formatted by their own name without their package.
+ */
+export function formatSchemaValueName(schema: GeneratedSchema, name: string, config: I18nPluginValueFormatterConfig = {}) {
+  const prefix = config.stripEnumPrefix !== false ? getEnumPrefix(schema) : undefined;
+  const valueName = match(schema)
+    .with({ rawSchema: { polymorph: P.not(P.nullish) } }, () => name.split('.').pop()!)
+    .otherwise(() => (prefix ? stripEnumPrefix(name, prefix) : name));
+
+  return formatValueName(valueName, config);
+}
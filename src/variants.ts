@@ -0,0 +1,80 @@
+import type { GeneratedSchema } from '@pentops/jsonapi-jdef-ts-generator';
+import { escapeKeySegment, type I18nPluginTranslationContext, type ProspectiveTranslation, type Translation } from './helpers';
+
+// I18NEXT_PLURAL_CATEGORIES are in the order i18next documents its plural suffixes
+export const I18NEXT_PLURAL_CATEGORIES: Intl.LDMLPluralRule[] = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+export interface I18nPluginTranslationVariants {
+  // plural writes each key with i18next plural suffixes, for the plural categories of the file's language
+  plural?: boolean;
+  // contexts writes a `<key>_<context>` variant for each named context, alongside the key itself
+  contexts?: string[];
+}
+
+export type I18nPluginVariantsGetter = (schema: GeneratedSchema, context: I18nPluginTranslationContext) => I18nPluginTranslationVariants | undefined;
+
+export function getPluralSuffixes(language: string) {
+  const categories = new Intl.PluralRules(language).resolvedOptions().pluralCategories;
+
+  return I18NEXT_PLURAL_CATEGORIES.filter((category) => categories.includes(category)).map((category) => `_${category}`);
+}
+
+export function expandTranslationVariants(translation: Translation, variants: I18nPluginTranslationVariants, language: string): Translation[] {
+  if (!variants.plural && !variants.contexts?.length) {
+    return [translation];
+  }
+
+  const contextSuffixes = ['', ...(variants.contexts || []).map((context) => `_${escapeKeySegment(context)}`)];
+  const pluralSuffixes = variants.plural ? getPluralSuffixes(language) : [''];
+
+  return contextSuffixes.flatMap((contextSuffix) =>
+    pluralSuffixes.map((pluralSuffix) => ({ ...translation, key: `${translation.key}${contextSuffix}${pluralSuffix}`, variantOf: translation.key })),
+  );
+}
+
+// getVariantBase strips a plural suffix and then any of the given context suffixes from a key
+export function getVariantBase(key: string, contextSuffixes: Set<string>) {
+  const base = key.replace(new RegExp(`_(${I18NEXT_PLURAL_CATEGORIES.join('|')})$`), '');
+  const contextSuffix = Array.from(contextSuffixes).find((suffix) => base.endsWith(suffix));
+
+  return contextSuffix ? base.slice(0, -contextSuffix.length) : base;
+}
+
+/**
+ * Groups prospective translations into variant groups by their base key. Generated variants are grouped by the key they
+ * were expanded from, existing variants without a generated value join the group for their base key, including the base
+ * key itself if it was written before variants were enabled. Existing variants for a base key that is no longer generated
+ * at all are grouped by their base key too, so they can be handled as one unit.
+ */
+export function groupTranslationVariants(prospects: Map<string, ProspectiveTranslation>, newTranslations: Map<string, Translation>) {
+  const groups = new Map<string, string[]>();
+  const contextSuffixes = new Set<string>();
+
+  for (const [key, translation] of newTranslations) {
+    if (translation.variantOf) {
+      groups.set(translation.variantOf, [...(groups.get(translation.variantOf) || []), key]);
+
+      const contextSuffix = getVariantBase(key, new Set()).slice(translation.variantOf.length);
+
+      if (contextSuffix) {
+        contextSuffixes.add(contextSuffix);
+      }
+    }
+  }
+
+  const generatedBases = new Set(groups.keys());
+
+  for (const [key, prospect] of prospects) {
+    if (prospect.newValue !== undefined) {
+      continue;
+    }
+
+    const base = generatedBases.has(key) ? key : getVariantBase(key, contextSuffixes);
+
+    if (base !== key || generatedBases.has(key)) {
+      groups.set(base, [...(groups.get(base) || []), key]);
+    }
+  }
+
+  return groups;
+}
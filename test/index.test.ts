@@ -1,4 +1,8 @@
-import { describe, it, expect } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it, expect, afterAll } from 'vitest';
+import ts from 'typescript';
 import { match, P } from 'ts-pattern';
 import { camelCase, capitalCase, kebabCase, pascalCase } from 'change-case';
 import {
@@ -10,8 +14,62 @@ import {
   Builder,
   mergeConfig,
   defaultEnumKeyNameWriter,
+  GeneratedClientFunction,
+  Generator,
 } from '@pentops/jsonapi-jdef-ts-generator';
-import { I18nPlugin, I18nPluginFileGeneratorConfig, I18nPluginTranslationWriter, Translation } from '../src';
+import {
+  I18nPlugin,
+  I18nIndexFileConfig,
+  I18nPluginConfigInput,
+  I18nPluginFileGeneratorConfig,
+  I18nPluginTranslationWriter,
+  I18nPluginTranslationContext,
+  resolveUnmatchedTranslation,
+  seedTargetLanguageTranslation,
+  hashSourceValue,
+  buildLabelHelperNodes,
+  findLeafBranchCollisions,
+  getCollisionSources,
+  I18nPluginFileFormatContext,
+  jsonFileFormat,
+  poFileFormat,
+  xliffFileFormat,
+  yamlFileFormat,
+  buildDescriptionTranslations,
+  defaultSchemaTranslationWriter,
+  defaultTranslationPathOrGetter,
+  trackSourceValues,
+  joinKeySegments,
+  splitKey,
+  reconcileExistingTranslationKeys,
+  diffTranslations,
+  findMissingTranslations,
+  formatCheckResult,
+  TranslationFileCheck,
+  getParseErrorLocation,
+  getParseErrorMessage,
+  findRenamedTranslationKeys,
+  I18nPluginState,
+  expandTranslationVariants,
+  groupTranslationVariants,
+  buildProspectiveTranslations,
+  buildLazyResourceNodes,
+  collectCommonTranslationSources,
+  defaultCommonTranslationPathOrGetter,
+  pseudoLocalizeValue,
+  formatValueName,
+  byPackage,
+  byTopLevelPackage,
+  bySchemaKind,
+  buildNamespaceAccessorNodes,
+  buildState,
+  getPreviousWrittenTranslations,
+  parsePreviousPluginState,
+  classifyTranslationKeys,
+  getPreviousTranslationKeys,
+  DEFAULT_MANAGED_KEY_PREFIXES,
+  Translation,
+} from '../src';
 import mockApiSource from './helpers/mock-api.json';
 
 function typeNameWriter(x: string) {
@@ -102,15 +160,15 @@ const caseOverrides: Record<string, string> = {
 const i18nTranslationWriter: I18nPluginTranslationWriter = (
   schema: GeneratedSchema,
   schemaPath: string,
-  existingValues?: Map<string, Translation>,
+  { existingTranslations },
 ): Translation[] | undefined =>
   match(schema)
     .with({ rawSchema: { oneOf: P.not(P.nullish) } }, (s) =>
       Array.from(s.rawSchema.oneOf.properties.values()).map((property) => {
         const path = `${schemaPath}.${property.name}`;
 
-        if (existingValues?.has(path)) {
-          return existingValues.get(path)!;
+        if (existingTranslations.has(path)) {
+          return existingTranslations.get(path)!;
         }
 
         return {
@@ -123,8 +181,8 @@ const i18nTranslationWriter: I18nPluginTranslationWriter = (
       s.rawSchema.enum.options.map((value) => {
         const path = `${schemaPath}.${value.name}`;
 
-        if (existingValues?.has(path)) {
-          return existingValues.get(path)!;
+        if (existingTranslations.has(path)) {
+          return existingTranslations.get(path)!;
         }
 
         return {
@@ -137,8 +195,8 @@ const i18nTranslationWriter: I18nPluginTranslationWriter = (
       s.rawSchema.polymorph.members?.map((value) => {
         const path = value;
 
-        if (existingValues?.has(path)) {
-          return existingValues.get(path)!;
+        if (existingTranslations.has(path)) {
+          return existingTranslations.get(path)!;
         }
 
         return {
@@ -149,9 +207,571 @@ const i18nTranslationWriter: I18nPluginTranslationWriter = (
     )
     .otherwise(() => undefined);
 
+interface PluginRunFixture {
+  generatedSchemas?: GeneratedSchema[];
+  generatedClientFunctions?: GeneratedClientFunction[];
+  state?: I18nPluginState;
+}
+
+const pluginRunDirectories: string[] = [];
+
+// createPluginRunner runs the plugin without the builder, in a temporary directory seeded with the given existing files
+async function createPluginRunner(existingFiles: Record<string, string> = {}) {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), 'i18n-plugin-'));
+
+  pluginRunDirectories.push(cwd);
+
+  const writeFiles = async (files: Record<string, string>) => {
+    for (const [fileName, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(cwd, fileName)), { recursive: true });
+      await fs.writeFile(path.join(cwd, fileName), content);
+    }
+  };
+
+  await writeFiles(existingFiles);
+
+  const run = async (config: I18nPluginConfigInput, { generatedSchemas = [], generatedClientFunctions = [], state }: PluginRunFixture = {}) => {
+    if (state) {
+      await writeFiles({ '.jdef_state.json': JSON.stringify({ plugins: { I18nPlugin: state } }) });
+    }
+
+    const plugin = new I18nPlugin(config);
+    const generator = {
+      config: { typeOutput: { directory: './types/generated', fileName: 'api.ts' }, state: { fileName: '.jdef_state.json' } },
+      generatedSchemas: new Map(generatedSchemas.map((schema) => [schema.generatedName, schema])),
+      generatedClientFunctions,
+    } as unknown as Generator;
+
+    plugin.prepare(
+      cwd,
+      parseApiSource(mockApiSource as unknown as APISource),
+      generator,
+      [],
+      undefined as unknown as Parameters<I18nPlugin['prepare']>[4],
+    );
+
+    const out = await plugin.run();
+    const files = Object.fromEntries(out.files.map((file) => [path.relative(cwd, file.writePath), file.content as string]));
+
+    return { plugin, files };
+  };
+
+  return { cwd, run, writeFiles };
+}
+
+function createFooStatusSchema(optionNames = ['ACTIVE', 'ARCHIVED']) {
+  return {
+    generatedName: 'FooStatus',
+    parentPackage: { package: 'foo.v1', label: 'Foo' },
+    rawSchema: {
+      enum: {
+        name: 'FooStatus',
+        fullGrpcName: 'foo.v1.FooStatus',
+        options: optionNames.map((name, i) => ({ name, number: i + 1 })),
+      },
+    },
+  } as unknown as GeneratedSchema;
+}
+
+const fooStatusSchema = createFooStatusSchema();
+
 describe(I18nPlugin, () => {
   const source = parseApiSource(mockApiSource as unknown as APISource);
 
+  afterAll(async () => {
+    await Promise.all(pluginRunDirectories.map((directory) => fs.rm(directory, { recursive: true, force: true })));
+  });
+
+  it('should pass check mode on unchanged files, including the default namespace', async () => {
+    const runner = await createPluginRunner();
+    const config: I18nPluginConfigInput = {
+      defaultNamespaceFile: { languages: ['en', 'fr'], directory: 'translations', fileName: 'common.json', packageLabels: true },
+      files: [{ directory: 'translations', fileName: 'foo.json', languages: ['en', 'fr'] }],
+    };
+
+    const { files } = await runner.run(config, { generatedSchemas: [fooStatusSchema] });
+
+    expect(Object.keys(files).sort()).toEqual([
+      'translations/en/common.json',
+      'translations/en/foo.json',
+      'translations/fr/common.json',
+      'translations/fr/foo.json',
+    ]);
+
+    await runner.writeFiles(files);
+
+    const { plugin } = await runner.run({ ...config, check: 'error' }, { generatedSchemas: [fooStatusSchema] });
+
+    expect(plugin.getCheckResult()?.passed).toBe(true);
+    expect(plugin.getCheckResult()?.translationFiles.find((file) => file.fileName === 'common.json')).toMatchObject({ added: [], removed: [] });
+  });
+
+  it('should keep sources on conflict handler results, so edited translations can be migrated again', async () => {
+    const runner = await createPluginRunner();
+    const config: I18nPluginConfigInput = { migrateRenames: true, files: [{ directory: 'translations', fileName: 'foo.json', language: 'en' }] };
+    const renamed = (generatedName: string) => ({ ...fooStatusSchema, generatedName }) as GeneratedSchema;
+
+    const first = await runner.run(config, { generatedSchemas: [fooStatusSchema] });
+
+    await runner.writeFiles({ 'translations/en/foo.json': JSON.stringify({ enum: { FooStatus: { ACTIVE: 'Live', ARCHIVED: 'ARCHIVED' } } }) });
+
+    const second = await runner.run(config, { generatedSchemas: [renamed('FooLifecycleStatus')], state: first.plugin.getState() });
+
+    expect(JSON.parse(second.files['translations/en/foo.json']!)).toEqual({ enum: { FooLifecycleStatus: { ACTIVE: 'Live', ARCHIVED: 'ARCHIVED' } } });
+    expect(second.plugin.getState()?.translationsWritten.en?.foo?.['enum.FooLifecycleStatus.ACTIVE']?.source).toMatchObject({
+      enum: { fullGrpcName: 'foo.v1.FooStatus', generatedName: 'FooLifecycleStatus' },
+    });
+
+    await runner.writeFiles(second.files);
+
+    const third = await runner.run(config, { generatedSchemas: [renamed('FooStateStatus')], state: second.plugin.getState() });
+
+    expect(JSON.parse(third.files['translations/en/foo.json']!)).toEqual({ enum: { FooStateStatus: { ACTIVE: 'Live', ARCHIVED: 'ARCHIVED' } } });
+    expect(third.plugin.getState()?.migrations?.map((migration) => migration.previousKey)).toEqual([
+      'enum.FooLifecycleStatus.ACTIVE',
+      'enum.FooLifecycleStatus.ARCHIVED',
+    ]);
+  });
+
+  it('should keep sources on unmatched handler results, and the previous source of kept keys, so they stay orphaned', async () => {
+    const runner = await createPluginRunner();
+    const config: I18nPluginConfigInput = {
+      orphanedKeys: true,
+      files: [
+        {
+          directory: 'translations',
+          fileName: 'foo.json',
+          language: 'en',
+          unmatchedTranslationFromExistingFileHandler: (translation) => ({ key: translation.key, value: translation.value }),
+        },
+      ],
+    };
+    const withoutArchived = createFooStatusSchema(['ACTIVE']);
+
+    const first = await runner.run(config, { generatedSchemas: [fooStatusSchema] });
+
+    await runner.writeFiles(first.files);
+
+    const second = await runner.run(config, { generatedSchemas: [withoutArchived], state: first.plugin.getState() });
+    const secondState = second.plugin.getState()!;
+
+    expect(secondState.keyClassifications?.[0]?.orphaned).toEqual(['enum.FooStatus.ARCHIVED']);
+    expect(secondState.translationsWritten.en?.foo?.['enum.FooStatus.ACTIVE']?.source).toMatchObject({ enum: { generatedName: 'FooStatus' } });
+    expect(secondState.translationsWritten.en?.foo?.['enum.FooStatus.ARCHIVED']?.source).toMatchObject({
+      enum: { generatedName: 'FooStatus', values: { ARCHIVED: 'ARCHIVED' } },
+    });
+
+    await runner.writeFiles(second.files);
+
+    // Without the previous run's classifications, kept keys are only known to be orphans by their recorded source
+    const third = await runner.run(config, { generatedSchemas: [withoutArchived], state: { ...secondState, keyClassifications: undefined } });
+
+    expect(third.plugin.getKeyClassifications()[0]).toMatchObject({
+      generated: ['enum.FooStatus.ACTIVE'],
+      orphaned: ['enum.FooStatus.ARCHIVED'],
+      manual: [],
+    });
+  });
+
+  it('should only add JSON files to the index file as resources', async () => {
+    const runner = await createPluginRunner();
+    const { files } = await runner.run(
+      {
+        indexFile: { directory: 'generated', fileName: 'index.ts', addGeneratedResources: true },
+        files: [
+          { directory: 'translations', fileName: 'foo.json', language: 'en' },
+          { directory: 'translations', fileName: 'bar.po', language: 'en', format: poFileFormat },
+        ],
+      },
+      { generatedSchemas: [fooStatusSchema] },
+    );
+
+    expect(files['translations/en/bar.po']).toBeDefined();
+    expect(files['generated/index.ts']).toContain(`import enFooNs from '../translations/en/foo.json';`);
+    expect(files['generated/index.ts']).not.toContain('bar.po');
+  });
+
+  it('should type namespace accessors with the CustomTypeOptions augmentation', async () => {
+    const runner = await createPluginRunner();
+    const config: I18nPluginConfigInput = {
+      indexFile: { directory: 'generated', fileName: 'index.ts', addGeneratedResources: true, namespaceAccessors: true },
+      defaultNamespaceFile: { languages: ['en'], directory: 'translations', fileName: 'common.json' },
+      files: [{ directory: 'translations', fileName: 'foo.json', language: 'en' }],
+    };
+
+    const { files } = await runner.run(config, { generatedSchemas: [fooStatusSchema] });
+
+    expect(files['generated/index.ts']).toContain(`declare module 'i18next'`);
+    expect(files['generated/index.ts']).toContain(`export const getFooT = (lng?: string | null) => i18n.getFixedT(lng ?? null, 'foo');`);
+    expect(() => new I18nPlugin({ ...config, indexFile: { ...config.indexFile!, customTypeOptions: false } })).toThrow(
+      'I18nPlugin: indexFile.namespaceAccessors requires indexFile.customTypeOptions',
+    );
+  });
+
+  it('should augment CustomTypeOptions with the resources, defaultNS and keySeparator', async () => {
+    const runner = await createPluginRunner();
+    const runWithIndexFile = async (initOptions: I18nIndexFileConfig['initOptions'], namespaceName?: string) =>
+      (
+        await runner.run(
+          {
+            indexFile: { directory: 'generated', fileName: 'index.ts', addGeneratedResources: true, customTypeOptions: true, initOptions },
+            defaultNamespaceFile: { languages: ['en'], directory: 'translations', fileName: 'common.json', namespaceName },
+            files: [{ directory: 'translations', fileName: 'foo.json', language: 'en' }],
+          },
+          { generatedSchemas: [fooStatusSchema] },
+        )
+      ).files['generated/index.ts'];
+
+    expect(await runWithIndexFile({ keySeparator: false }, 'common')).toContain(
+      [
+        `declare module 'i18next' {`,
+        `    interface CustomTypeOptions {`,
+        `        defaultNS: (typeof i18nOpts)['defaultNS'];`,
+        `        keySeparator: false;`,
+        `        resources: (typeof i18nOpts)['resources']['en'];`,
+        `    }`,
+        `}`,
+      ].join('\n'),
+    );
+    expect(await runWithIndexFile({})).toContain(
+      [
+        `declare module 'i18next' {`,
+        `    interface CustomTypeOptions {`,
+        `        resources: (typeof i18nOpts)['resources']['en'];`,
+        `    }`,
+        `}`,
+      ].join('\n'),
+    );
+  });
+
+  it('should only translate client functions for files with a clientFunctionFilter', async () => {
+    const runner = await createPluginRunner();
+    const clientFunction = {
+      generatedName: 'fooV1GetFoo',
+      method: { rawMethod: { name: 'GetFoo', fullGrpcName: 'foo.v1.FooService/GetFoo' } },
+    } as unknown as GeneratedClientFunction;
+
+    const { plugin, files } = await runner.run(
+      {
+        files: [
+          { directory: 'translations', fileName: 'foo.json', language: 'en' },
+          { directory: 'translations', fileName: 'methods.json', language: 'en', schemaFilter: false, clientFunctionFilter: true },
+        ],
+      },
+      { generatedSchemas: [fooStatusSchema], generatedClientFunctions: [clientFunction] },
+    );
+
+    expect(JSON.parse(files['translations/en/foo.json']!)).toEqual({ enum: { FooStatus: { ACTIVE: 'ACTIVE', ARCHIVED: 'ARCHIVED' } } });
+    expect(JSON.parse(files['translations/en/methods.json']!)).toEqual({ method: { fooV1GetFoo: 'GetFoo' } });
+    expect(plugin.getState()?.translationsWritten.en?.methods?.['method.fooV1GetFoo']?.source).toEqual({
+      method: { fullGrpcName: 'foo.v1.FooService/GetFoo', generatedName: 'fooV1GetFoo' },
+    });
+  });
+
+  it('should resolve keys only in the existing file with the file unmatched handler over the conflict handler', async () => {
+    const existing = JSON.stringify({ enum: { FooStatus: { ACTIVE: 'Active', DELETED: 'Deleted' } } });
+    const runner = await createPluginRunner({ 'translations/en/kept.json': existing, 'translations/en/removed.json': existing });
+
+    const { files } = await runner.run(
+      {
+        conflictHandler: (prospect) =>
+          prospect.newValue === undefined ? null : { key: prospect.key, value: prospect.existingValue ?? prospect.newValue },
+        files: [
+          { directory: 'translations', fileName: 'kept.json', language: 'en', unmatchedTranslationFromExistingFileHandler: 'keep' },
+          { directory: 'translations', fileName: 'removed.json', language: 'en' },
+        ],
+      },
+      { generatedSchemas: [fooStatusSchema] },
+    );
+
+    expect(JSON.parse(files['translations/en/kept.json']!)).toEqual({
+      enum: { FooStatus: { ACTIVE: 'Active', ARCHIVED: 'ARCHIVED', DELETED: 'Deleted' } },
+    });
+    expect(JSON.parse(files['translations/en/removed.json']!)).toEqual({ enum: { FooStatus: { ACTIVE: 'Active', ARCHIVED: 'ARCHIVED' } } });
+  });
+
+  it('should fan out files into language directories without overwriting existing target language values', async () => {
+    const runner = await createPluginRunner({ 'translations/fr/foo.json': JSON.stringify({ enum: { FooStatus: { ACTIVE: 'Actif' } } }) });
+
+    const { files } = await runner.run(
+      { files: [{ directory: 'translations', fileName: 'foo.json', languages: ['en', 'fr', 'de'], targetLanguageSeeder: 'empty' }] },
+      { generatedSchemas: [fooStatusSchema] },
+    );
+
+    expect(Object.keys(files).sort()).toEqual(['translations/de/foo.json', 'translations/en/foo.json', 'translations/fr/foo.json']);
+    expect(JSON.parse(files['translations/en/foo.json']!)).toEqual({ enum: { FooStatus: { ACTIVE: 'ACTIVE', ARCHIVED: 'ARCHIVED' } } });
+    expect(JSON.parse(files['translations/fr/foo.json']!)).toEqual({ enum: { FooStatus: { ACTIVE: 'Actif', ARCHIVED: '' } } });
+    expect(JSON.parse(files['translations/de/foo.json']!)).toEqual({ enum: { FooStatus: { ACTIVE: '', ARCHIVED: '' } } });
+  });
+
+  it('should abort on or back up existing files that fail to parse', async () => {
+    const corrupted = '{ "enum": { "FooStatus": { "ACTIVE": "Active", } }';
+    const runner = await createPluginRunner({ 'translations/en/foo.json': corrupted });
+    const runWithPolicy = (parseFailurePolicy?: I18nPluginFileGeneratorConfig['parseFailurePolicy']) =>
+      runner.run(
+        { files: [{ directory: 'translations', fileName: 'foo.json', language: 'en', parseFailurePolicy }] },
+        { generatedSchemas: [fooStatusSchema] },
+      );
+
+    await expect(runWithPolicy()).rejects.toThrow('I18nPlugin: failed to parse existing file');
+    await expect(runWithPolicy('abort')).rejects.toThrow('I18nPlugin: failed to parse existing file');
+
+    const { plugin, files } = await runWithPolicy('backup');
+
+    expect(files['translations/en/foo.json.bak']).toEqual(corrupted);
+    expect(JSON.parse(files['translations/en/foo.json']!)).toEqual({ enum: { FooStatus: { ACTIVE: 'ACTIVE', ARCHIVED: 'ARCHIVED' } } });
+    expect(plugin.getState()?.parseFailures).toMatchObject([{ fileName: 'foo.json', policy: 'backup', backupFileName: 'foo.json.bak' }]);
+  });
+
+  it('should only prune orphaned keys, keeping manual and unmanaged keys', async () => {
+    const runner = await createPluginRunner({ 'translations/en/foo.json': JSON.stringify({ enum: { Custom: { ONE: 'One' } } }) });
+    const config: I18nPluginConfigInput = {
+      orphanedKeys: { prune: true },
+      files: [{ directory: 'translations', fileName: 'foo.json', language: 'en' }],
+    };
+
+    const first = await runner.run(config, { generatedSchemas: [fooStatusSchema] });
+
+    // Without previous state there's no telling which keys were generated, so nothing is pruned
+    expect(JSON.parse(first.files['translations/en/foo.json']!)).toEqual({
+      enum: { Custom: { ONE: 'One' }, FooStatus: { ACTIVE: 'ACTIVE', ARCHIVED: 'ARCHIVED' } },
+    });
+    expect(first.plugin.getKeyClassifications()[0]).toMatchObject({ orphaned: [], manual: ['enum.Custom.ONE'], pruned: [] });
+
+    await runner.writeFiles({
+      'translations/en/foo.json': JSON.stringify({
+        enum: { Custom: { ONE: 'One' }, FooStatus: { ACTIVE: 'Active', ARCHIVED: 'Archived' } },
+        pages: { home: { title: 'Home' } },
+      }),
+    });
+
+    const second = await runner.run(config, { generatedSchemas: [createFooStatusSchema(['ACTIVE'])], state: first.plugin.getState() });
+
+    expect(JSON.parse(second.files['translations/en/foo.json']!)).toEqual({
+      enum: { Custom: { ONE: 'One' }, FooStatus: { ACTIVE: 'Active' } },
+      pages: { home: { title: 'Home' } },
+    });
+    expect(second.plugin.getKeyClassifications()).toEqual([
+      {
+        fileName: 'foo.json',
+        language: 'en',
+        namespace: 'foo',
+        generated: ['enum.FooStatus.ACTIVE'],
+        orphaned: ['enum.FooStatus.ARCHIVED'],
+        manual: ['enum.Custom.ONE'],
+        unmanaged: ['pages.home.title'],
+        pruned: ['enum.FooStatus.ARCHIVED'],
+      },
+    ]);
+  });
+
+  it('should write a label helpers file importing the TFunction type', async () => {
+    const runner = await createPluginRunner();
+    const { files } = await runner.run(
+      {
+        labelHelpersFile: { directory: 'generated', fileName: 'labels.ts' },
+        files: [{ directory: 'translations', fileName: 'foo.json', language: 'en' }],
+      },
+      { generatedSchemas: [fooStatusSchema] },
+    );
+
+    expect(files['generated/labels.ts']).toContain(`import type { TFunction } from 'i18next';`);
+    expect(files['generated/labels.ts']).toMatchSnapshot();
+  });
+
+  it('should import the backend types in a lazy loading index file', async () => {
+    const runner = await createPluginRunner();
+    const { files } = await runner.run(
+      {
+        indexFile: { directory: 'generated', fileName: 'index.ts', addGeneratedResources: true, resourceLoading: 'lazy' },
+        defaultNamespaceFile: { languages: ['en'], directory: 'translations', fileName: 'common.json', namespaceName: 'common' },
+        files: [{ directory: 'translations', fileName: 'foo.json', language: 'en' }],
+      },
+      { generatedSchemas: [fooStatusSchema] },
+    );
+
+    expect(files['generated/index.ts']).toContain(`import i18n, { type BackendModule, type ResourceKey } from 'i18next';`);
+    expect(files['generated/index.ts']).toMatchSnapshot();
+  });
+
+  it('should report, fail on or drop keys nested beneath another translation', async () => {
+    const runner = await createPluginRunner();
+    const config = (keyCollisionPolicy?: I18nPluginFileGeneratorConfig['keyCollisionPolicy']): I18nPluginConfigInput => ({
+      files: [
+        {
+          directory: 'translations',
+          fileName: 'foo.json',
+          language: 'en',
+          keyCollisionPolicy,
+          translationWriter: (_, path) => [
+            { key: `${path}.ACTIVE`, value: 'Active' },
+            { key: `${path}.ACTIVE.hint`, value: 'Currently in use' },
+          ],
+        },
+      ],
+    });
+
+    const reported = await runner.run(config(), { generatedSchemas: [fooStatusSchema] });
+
+    expect(JSON.parse(reported.files['translations/en/foo.json']!)).toEqual({
+      enum: { FooStatus: { 'ACTIVE': 'Active', 'ACTIVE.hint': 'Currently in use' } },
+    });
+    expect(reported.plugin.getKeyCollisions()).toMatchObject([
+      { type: 'leafBranch', key: 'enum.FooStatus.ACTIVE', conflictingKey: 'enum.FooStatus.ACTIVE.hint' },
+    ]);
+    expect(Object.keys(reported.plugin.getState()!.translationsWritten.en!.foo!)).toEqual(['enum.FooStatus.ACTIVE', 'enum.FooStatus.ACTIVE.hint']);
+
+    // Both keys are read back from the written file
+    await runner.writeFiles(reported.files);
+    expect((await runner.run({ ...config(), check: 'error' }, { generatedSchemas: [fooStatusSchema] })).plugin.getCheckResult()?.passed).toBe(true);
+
+    await expect(runner.run(config('error'), { generatedSchemas: [fooStatusSchema] })).rejects.toThrow(
+      'I18nPlugin: leafBranch collision in foo.json (en) between "enum.FooStatus.ACTIVE" and "enum.FooStatus.ACTIVE.hint"',
+    );
+
+    const keptFirst = await runner.run(config('keepFirst'), { generatedSchemas: [fooStatusSchema] });
+
+    expect(JSON.parse(keptFirst.files['translations/en/foo.json']!)).toEqual({ enum: { FooStatus: { ACTIVE: 'Active' } } });
+    expect(Object.keys(keptFirst.plugin.getState()!.translationsWritten.en!.foo!)).toEqual(['enum.FooStatus.ACTIVE']);
+  });
+
+  it('should merge plural variant groups, falling back to legacy base keys and resolving removed groups as one unit', async () => {
+    const runner = await createPluginRunner({
+      'translations/en/foo.json': JSON.stringify({
+        enum: { FooStatus: { ACTIVE: 'Live', ARCHIVED_one: 'Archived item', DELETED_one: 'Deleted item', DELETED_other: 'Deleted items' } },
+      }),
+    });
+    const runWithUnmatchedHandler = async (
+      unmatchedTranslationFromExistingFileHandler?: I18nPluginFileGeneratorConfig['unmatchedTranslationFromExistingFileHandler'],
+    ) =>
+      JSON.parse(
+        (
+          await runner.run(
+            {
+              files: [
+                {
+                  directory: 'translations',
+                  fileName: 'foo.json',
+                  language: 'en',
+                  variants: () => ({ plural: true }),
+                  unmatchedTranslationFromExistingFileHandler,
+                },
+              ],
+            },
+            { generatedSchemas: [fooStatusSchema] },
+          )
+        ).files['translations/en/foo.json']!,
+      );
+
+    // ACTIVE was written before variants were enabled, so its value is kept for each variant
+    expect(await runWithUnmatchedHandler()).toEqual({
+      enum: {
+        FooStatus: {
+          ACTIVE_one: 'Live',
+          ACTIVE_other: 'Live',
+          ARCHIVED_one: 'Archived item',
+          ARCHIVED_other: 'ARCHIVED',
+          DELETED_one: 'Deleted item',
+          DELETED_other: 'Deleted items',
+        },
+      },
+    });
+
+    const removed = await runWithUnmatchedHandler('remove');
+    const renamed = await runWithUnmatchedHandler((translation) => ({ ...translation, key: translation.key.replace(/^enum\./, 'legacy.') }));
+
+    expect(Object.keys(removed.enum.FooStatus)).toEqual(['ACTIVE_one', 'ACTIVE_other', 'ARCHIVED_one', 'ARCHIVED_other']);
+    expect(removed.legacy).toBeUndefined();
+    expect(Object.keys(renamed.enum.FooStatus)).toEqual(['ACTIVE_one', 'ACTIVE_other', 'ARCHIVED_one', 'ARCHIVED_other']);
+    expect(renamed.legacy).toEqual({ FooStatus: { DELETED_one: 'Deleted item', DELETED_other: 'Deleted items' } });
+  });
+
+  it('should write pseudo-locale files for source language files, as eager and lazy index resources', async () => {
+    const runner = await createPluginRunner();
+    const runWithResourceLoading = (resourceLoading: I18nIndexFileConfig['resourceLoading']) =>
+      runner.run(
+        {
+          pseudoLocale: { expansion: 0 },
+          indexFile: { directory: 'generated', fileName: 'index.ts', addGeneratedResources: true, resourceLoading },
+          defaultNamespaceFile: { languages: ['en'], directory: 'translations', fileName: 'common.json', namespaceName: 'common' },
+          files: [{ directory: 'translations', fileName: 'foo.json', languages: ['en', 'fr'] }],
+        },
+        { generatedSchemas: [fooStatusSchema] },
+      );
+
+    const eager = await runWithResourceLoading('eager');
+
+    expect(JSON.parse(eager.files['translations/en-XA/foo.json']!)).toEqual({ enum: { FooStatus: { ACTIVE: '[ÁÇŢÍṼÉ]', ARCHIVED: '[ÁŔÇĤÍṼÉÐ]' } } });
+    expect(eager.files['translations/en-XA/common.json']).toBeDefined();
+    expect(Object.keys(eager.files).filter((fileName) => fileName.includes('en-XA'))).toHaveLength(2);
+    expect(eager.files['generated/index.ts']).toContain(`import enXaFooNs from '../translations/en-XA/foo.json';`);
+    expect(eager.files['generated/index.ts']).toContain(`'en-XA': {`);
+
+    const lazy = await runWithResourceLoading('lazy');
+
+    expect(lazy.files['generated/index.ts']).toContain(`foo: () => import('../translations/en-XA/foo.json')`);
+  });
+
+  it('should keep flagging stale translations across runs until the target language value is updated', async () => {
+    const runner = await createPluginRunner({
+      'translations/en/foo.json': JSON.stringify({ enum: { FooStatus: { ACTIVE: 'Active', ARCHIVED: 'Archived' } } }),
+      'translations/fr/foo.json': JSON.stringify({ enum: { FooStatus: { ACTIVE: 'Actif', ARCHIVED: 'Archivé' } } }),
+    });
+    const config: I18nPluginConfigInput = {
+      files: [{ directory: 'translations', fileName: 'foo.json', languages: ['en', 'fr'], sourceMetadataFile: true }],
+    };
+
+    const first = await runner.run(config, { generatedSchemas: [fooStatusSchema] });
+
+    expect(JSON.parse(first.files['translations/foo.meta.json']!)).toEqual({
+      fr: {
+        'enum.FooStatus.ACTIVE': { sourceHash: expect.any(String), sourceValue: 'Active', value: 'Actif' },
+        'enum.FooStatus.ARCHIVED': { sourceHash: expect.any(String), sourceValue: 'Archived', value: 'Archivé' },
+      },
+    });
+    expect(first.plugin.getState()?.staleTranslations).toBeUndefined();
+
+    await runner.writeFiles({
+      'translations/foo.meta.json': first.files['translations/foo.meta.json']!,
+      'translations/en/foo.json': JSON.stringify({ enum: { FooStatus: { ACTIVE: 'Enabled', ARCHIVED: 'Archived' } } }),
+    });
+
+    const staleTranslation = {
+      fileName: 'foo.json',
+      namespace: 'foo',
+      language: 'fr',
+      key: 'enum.FooStatus.ACTIVE',
+      value: 'Actif',
+      sourceValue: 'Enabled',
+      previousSourceValue: 'Active',
+    };
+
+    const second = await runner.run(config, { generatedSchemas: [fooStatusSchema], state: first.plugin.getState() });
+
+    expect(JSON.parse(second.files['translations/foo.meta.json']!).fr['enum.FooStatus.ACTIVE']).toMatchObject({ sourceValue: 'Active', stale: true });
+    expect(second.plugin.getState()?.staleTranslations).toEqual([staleTranslation]);
+
+    await runner.writeFiles({ 'translations/foo.meta.json': second.files['translations/foo.meta.json']! });
+
+    const third = await runner.run(config, { generatedSchemas: [fooStatusSchema], state: second.plugin.getState() });
+
+    expect(third.plugin.getState()?.staleTranslations).toEqual([staleTranslation]);
+
+    await runner.writeFiles({
+      'translations/foo.meta.json': third.files['translations/foo.meta.json']!,
+      'translations/fr/foo.json': JSON.stringify({ enum: { FooStatus: { ACTIVE: 'Activé', ARCHIVED: 'Archivé' } } }),
+    });
+
+    const fourth = await runner.run(config, { generatedSchemas: [fooStatusSchema], state: third.plugin.getState() });
+
+    expect(JSON.parse(fourth.files['translations/foo.meta.json']!).fr['enum.FooStatus.ACTIVE']).toEqual({
+      sourceHash: expect.any(String),
+      sourceValue: 'Enabled',
+      value: 'Activé',
+    });
+    expect(fourth.plugin.getState()?.staleTranslations).toBeUndefined();
+  });
+
   it('should write translations according to specified parameters', async () => {
     const p = new I18nPlugin({
       indexFile: {
@@ -160,6 +780,8 @@ describe(I18nPlugin, () => {
         middleware: [{ importSpecifier: 'initReactI18next', importPath: 'react-i18next' }],
         addGeneratedResources: true,
       },
+      // Schema names are written under their full gRPC name as one escaped key segment, e.g. `schema.j5\.auth\.v1\.AuthenticationMethod_JWT`,
+      // so a message and a message nested in it don't collide as a leaf and a branch in the nested file
       defaultNamespaceFile: {
         languages: ['en'],
         directory: '../translation/translations',
@@ -242,3 +864,632 @@ describe(I18nPlugin, () => {
     }
   });
 });
+
+describe(resolveUnmatchedTranslation, () => {
+  const translation: Translation = { key: 'enum.FooStatus.REMOVED', value: 'Removed' };
+
+  it('should keep, remove or rewrite unmatched translations', () => {
+    expect(resolveUnmatchedTranslation('keep', translation)).toEqual(translation);
+    expect(resolveUnmatchedTranslation('remove', translation)).toBeNull();
+    expect(resolveUnmatchedTranslation((t) => ({ ...t, key: `legacy.${t.key}` }), translation)).toEqual({
+      key: 'legacy.enum.FooStatus.REMOVED',
+      value: 'Removed',
+    });
+  });
+});
+
+describe(seedTargetLanguageTranslation, () => {
+  const sourceTranslation: Translation = { key: 'enum.FooStatus.ACTIVE', value: 'Active' };
+  const context = { language: 'fr', namespace: 'foo', existingTranslations: new Map() } as unknown as I18nPluginTranslationContext;
+
+  it('should seed target language translations according to the seeder', () => {
+    expect(seedTargetLanguageTranslation('copy', sourceTranslation, context)).toEqual(sourceTranslation);
+    expect(seedTargetLanguageTranslation('empty', sourceTranslation, context)).toEqual({ ...sourceTranslation, value: '' });
+    expect(seedTargetLanguageTranslation('omit', sourceTranslation, context)).toBeNull();
+    expect(seedTargetLanguageTranslation((t, ctx) => ({ ...t, value: `[${ctx.language}] ${t.value}` }), sourceTranslation, context)).toEqual({
+      ...sourceTranslation,
+      value: '[fr] Active',
+    });
+  });
+});
+
+describe(trackSourceValues, () => {
+  const toMap = (translations: Translation[]) => new Map(translations.map((t) => [t.key, t]));
+
+  it('should flag target translations whose source value changed since they were recorded', () => {
+    const { metadata, staleKeys } = trackSourceValues(
+      toMap([
+        { key: 'enum.FooStatus.ACTIVE', value: 'Actif' },
+        { key: 'enum.FooStatus.PENDING', value: 'En attente' },
+      ]),
+      toMap([
+        { key: 'enum.FooStatus.ACTIVE', value: 'Enabled' },
+        { key: 'enum.FooStatus.PENDING', value: 'Pending' },
+      ]),
+      {
+        'enum.FooStatus.ACTIVE': { sourceHash: hashSourceValue('Active'), sourceValue: 'Active', value: 'Actif' },
+        'enum.FooStatus.PENDING': { sourceHash: hashSourceValue('Pending'), sourceValue: 'Pending', value: 'En attente' },
+      },
+    );
+
+    expect(staleKeys).toEqual(['enum.FooStatus.ACTIVE']);
+    expect(metadata['enum.FooStatus.ACTIVE']).toMatchObject({ sourceValue: 'Active', stale: true });
+    expect(metadata['enum.FooStatus.PENDING']).toEqual({ sourceHash: hashSourceValue('Pending'), sourceValue: 'Pending', value: 'En attente' });
+  });
+});
+
+describe(buildLabelHelperNodes, () => {
+  it('should build a key map tied to the generated type and a label getter', () => {
+    const printer = ts.createPrinter();
+    const sourceFile = ts.createSourceFile('labels.ts', '', ts.ScriptTarget.ESNext);
+    const nodes = buildLabelHelperNodes({
+      schema: { generatedName: 'FooStatus', rawSchema: { enum: { options: [{ name: 'ACTIVE' }] } } } as unknown as GeneratedSchema,
+      namespace: 'foo',
+      keys: { ACTIVE: 'enum.FooStatus.ACTIVE' },
+    });
+    const printed = nodes.map((node) => printer.printNode(ts.EmitHint.Unspecified, node, sourceFile)).join('\n');
+
+    expect(printed).toContain('} as const satisfies Record<FooStatus, string>;');
+    expect(printed).toContain('export function getFooStatusLabel(value: FooStatus, t: TFunction): string {');
+    expect(printed).toContain("return t(fooStatusTranslationKeys[value], { ns: 'foo' });");
+  });
+});
+
+describe(defaultSchemaTranslationWriter, () => {
+  const schema = {
+    generatedName: 'FooOrder',
+    rawSchema: {
+      object: {
+        properties: new Map([
+          ['orderId', { name: 'orderId', schema: { string: {} } }],
+          ['status', { name: 'status', schema: { $ref: 'foo.v1.OrderStatus' } }],
+          ['address', { name: 'address', schema: { object: { properties: new Map([['street', { name: 'street', schema: { string: {} } }]]) } } }],
+        ]),
+      },
+    },
+  } as unknown as GeneratedSchema;
+
+  const contextFor = (objectPropertyLabels: I18nPluginFileGeneratorConfig['objectPropertyLabels']) =>
+    ({ file: { config: { objectPropertyLabels } }, existingTranslations: new Map() }) as unknown as I18nPluginTranslationContext;
+
+  it('should only write object property labels when opted in', () => {
+    expect(defaultTranslationPathOrGetter(schema, contextFor(undefined))).toBeUndefined();
+    expect(defaultSchemaTranslationWriter(schema, 'object.FooOrder', contextFor(undefined))).toBeUndefined();
+    expect(defaultTranslationPathOrGetter(schema, contextFor(true))).toBe('object.FooOrder');
+    expect(defaultSchemaTranslationWriter(schema, 'object.FooOrder', contextFor(true))).toEqual([
+      { key: 'object.FooOrder.orderId', value: 'orderId' },
+      { key: 'object.FooOrder.status', value: 'status' },
+      { key: 'object.FooOrder.address', value: 'address' },
+    ]);
+  });
+
+  it('should write inline nested object property labels with a value formatter', () => {
+    const context = contextFor({ nestedObjects: 'inline', valueFormatter: (property) => titleCaseName(property.name, caseOverrides) });
+
+    expect(defaultSchemaTranslationWriter(schema, 'object.FooOrder', context)).toEqual([
+      { key: 'object.FooOrder.orderId', value: 'Order ID' },
+      { key: 'object.FooOrder.status', value: 'Status' },
+      { key: 'object.FooOrder.address', value: 'Address' },
+      { key: 'object.FooOrderAddress.street', value: 'Street' },
+    ]);
+  });
+
+  it('should format values with the file value formatter, stripping the enum prefix', () => {
+    const enumSchema = {
+      generatedName: 'FooOrderStatus',
+      rawSchema: {
+        enum: {
+          name: 'OrderStatus',
+          prefix: 'ORDER_STATUS_',
+          options: [{ name: 'ORDER_STATUS_PENDING_REVIEW' }, { name: 'AWAITING_API_ID' }, { name: 'OUT_OF_STOCK' }],
+        },
+      },
+    } as unknown as GeneratedSchema;
+    const contextWith = (valueFormatting: I18nPluginFileGeneratorConfig['valueFormatting']) =>
+      ({ file: { config: { valueFormatting } }, existingTranslations: new Map() }) as unknown as I18nPluginTranslationContext;
+
+    expect(defaultSchemaTranslationWriter(enumSchema, 'enum.FooOrderStatus', contextWith(true))?.map((t) => t.value)).toEqual([
+      'Pending Review',
+      'Awaiting API ID',
+      'Out of Stock',
+    ]);
+    expect(
+      defaultSchemaTranslationWriter(enumSchema, 'enum.FooOrderStatus', contextWith({ case: 'sentence', stripEnumPrefix: false }))?.map(
+        (t) => t.value,
+      ),
+    ).toEqual(['Order status pending review', 'Awaiting API ID', 'Out of stock']);
+    expect(defaultSchemaTranslationWriter(schema, 'object.FooOrder', contextWith(true))).toBeUndefined();
+    expect(formatValueName('orderId')).toEqual(titleCaseName('orderId', caseOverrides));
+  });
+});
+
+describe(buildDescriptionTranslations, () => {
+  it('should build description sibling keys from the descriptions written for enum options', () => {
+    const schema = {
+      generatedName: 'FooStatus',
+      rawSchema: { enum: { options: [{ name: 'ACTIVE' }, { name: 'PENDING_REVIEW', description: 'Waiting for an operator to review' }] } },
+    } as unknown as GeneratedSchema;
+    const context = { file: { config: {} }, existingTranslations: new Map() } as unknown as I18nPluginTranslationContext;
+    const translations = defaultSchemaTranslationWriter(schema, 'enum.FooStatus', context) || [];
+
+    expect(Array.from(buildDescriptionTranslations(new Map(translations.map((t) => [t.key, t]))).values())).toEqual([
+      { key: 'enum.FooStatus.PENDING_REVIEW_description', value: 'Waiting for an operator to review', source: undefined },
+    ]);
+  });
+});
+
+describe('file formats', () => {
+  const translations: Translation[] = [
+    { key: 'enum.FooStatus.ACTIVE', value: 'Actif' },
+    { key: 'enum.FooStatus.PENDING_REVIEW', value: 'En attente "de revue"', description: 'Waiting for an operator to review' },
+  ];
+
+  const context = {
+    keyStyle: 'nested',
+    language: 'fr',
+    namespace: 'foo',
+    sourceLanguage: 'en',
+    sourceTranslations: new Map([
+      ['enum.FooStatus.ACTIVE', { key: 'enum.FooStatus.ACTIVE', value: 'Active' }],
+      ['enum.FooStatus.PENDING_REVIEW', { key: 'enum.FooStatus.PENDING_REVIEW', value: 'Pending <review> & more' }],
+    ]),
+  } as unknown as I18nPluginFileFormatContext;
+
+  it.each([jsonFileFormat, yamlFileFormat, poFileFormat, xliffFileFormat])('should round trip translations with the $name format', (format) => {
+    const parsed = format.parse(format.serialize(translations, context));
+
+    expect(Array.from(parsed.values())).toEqual(translations.map(({ key, value }) => ({ key, value })));
+  });
+
+  it('should migrate existing files between nested and flat key styles', () => {
+    const nested = jsonFileFormat.serialize(translations, context);
+    const flat = jsonFileFormat.serialize(Array.from(jsonFileFormat.parse(nested).values()), { ...context, keyStyle: 'flat' });
+
+    expect(JSON.parse(flat)).toEqual({ 'enum.FooStatus.ACTIVE': 'Actif', 'enum.FooStatus.PENDING_REVIEW': 'En attente "de revue"' });
+    expect(jsonFileFormat.serialize(Array.from(jsonFileFormat.parse(flat).values()), context)).toEqual(nested);
+  });
+
+  it('should pair source values and write descriptions as translator comments', () => {
+    const po = poFileFormat.serialize(translations, context);
+    const xliff = xliffFileFormat.serialize(translations, context);
+
+    expect(po).toContain('#. Waiting for an operator to review\nmsgctxt "enum.FooStatus.PENDING_REVIEW"\nmsgid "Pending <review> & more"');
+    expect(xliff).toContain('<note>Waiting for an operator to review</note>');
+    expect(xliff).toContain('<source>Pending &lt;review&gt; &amp; more</source>');
+    expect(yamlFileFormat.serialize(translations, context)).toContain('# Waiting for an operator to review');
+  });
+});
+
+describe(findLeafBranchCollisions, () => {
+  it('should find keys written both as a value and as a parent of other keys', () => {
+    const polymorph = { generatedName: 'FooEvent' } as GeneratedSchema;
+    const enumSchema = { generatedName: 'FooStatus' } as GeneratedSchema;
+    const translations = new Map<string, Translation>([
+      ['foo', { key: 'foo', value: 'Foo', source: polymorph }],
+      ['foo.v1.Bar', { key: 'foo.v1.Bar', value: 'Bar', source: enumSchema }],
+      ['foo-bar', { key: 'foo-bar', value: 'Foo Bar' }],
+    ]);
+
+    const collisions = findLeafBranchCollisions(translations);
+
+    expect(collisions.map(([leaf, branch]) => [leaf.key, branch.key])).toEqual([['foo', 'foo.v1.Bar']]);
+    expect(getCollisionSources(...collisions[0]!)).toEqual(['FooEvent', 'FooStatus']);
+  });
+});
+
+describe(splitKey, () => {
+  it('should keep escaped key separators within a segment', () => {
+    const key = joinKeySegments('polymorph', 'FooEvent', 'foo.v1.Bar');
+
+    expect(key).toEqual('polymorph.FooEvent.foo\\.v1\\.Bar');
+    expect(splitKey(key)).toEqual(['polymorph', 'FooEvent', 'foo.v1.Bar']);
+    expect(splitKey(joinKeySegments('a\\b', 'c'))).toEqual(['a\\b', 'c']);
+  });
+
+  it('should round trip segments containing dots through nested files', () => {
+    const context = { keyStyle: 'nested' } as I18nPluginFileFormatContext;
+    const translations: Translation[] = [{ key: joinKeySegments('polymorph', 'FooEvent', 'foo.v1.Bar'), value: 'Bar' }];
+    const content = jsonFileFormat.serialize(translations, context);
+
+    expect(JSON.parse(content)).toEqual({ polymorph: { FooEvent: { 'foo.v1.Bar': 'Bar' } } });
+    expect(Array.from(jsonFileFormat.parse(content).values())).toEqual(translations);
+  });
+
+  it('should reconcile existing flat keys with escaped new keys', () => {
+    const key = joinKeySegments('polymorph', 'FooEvent', 'foo.v1.Bar');
+    const existing = jsonFileFormat.parse(jsonFileFormat.serialize([{ key, value: 'Bar' }], { keyStyle: 'flat' } as I18nPluginFileFormatContext));
+
+    expect(Array.from(existing.keys())).toEqual(['polymorph.FooEvent.foo.v1.Bar']);
+    expect(Array.from(reconcileExistingTranslationKeys(existing, new Map([[key, { key, value: 'Bar' }]])).keys())).toEqual([key]);
+  });
+});
+
+describe(diffTranslations, () => {
+  it('should diff the translations on disk against the would-be output', () => {
+    const toMap = (values: Record<string, string>) => new Map(Object.entries(values).map(([key, value]) => [key, { key, value }]));
+    const existing = toMap({ 'enum.FooStatus.ACTIVE': 'Actif', 'enum.FooStatus.REMOVED': 'Supprimé', 'enum.FooStatus.PENDING': 'En attente' });
+    const next = toMap({ 'enum.FooStatus.ACTIVE': 'Actif', 'enum.FooStatus.PENDING': 'Pending', 'enum.FooStatus.ARCHIVED': 'Archived' });
+    const source = toMap({ 'enum.FooStatus.ACTIVE': 'Active', 'enum.FooStatus.PENDING': 'Pending', 'enum.FooStatus.ARCHIVED': 'Archived' });
+
+    const check: TranslationFileCheck = {
+      fileName: 'foo.json',
+      writePath: 'translations/fr/foo.json',
+      language: 'fr',
+      namespace: 'foo',
+      ...diffTranslations(existing, next),
+      missing: findMissingTranslations(existing, source),
+    };
+
+    expect(check).toMatchObject({
+      added: ['enum.FooStatus.ARCHIVED'],
+      removed: ['enum.FooStatus.REMOVED'],
+      changed: [{ key: 'enum.FooStatus.PENDING', previousValue: 'En attente', value: 'Pending' }],
+      missing: ['enum.FooStatus.ARCHIVED'],
+    });
+    expect(formatCheckResult({ outOfDateFiles: [check.writePath], translationFiles: [check], passed: false })).toEqual(
+      [
+        'translations/fr/foo.json (fr):',
+        '  + enum.FooStatus.ARCHIVED',
+        '  - enum.FooStatus.REMOVED',
+        '  ~ enum.FooStatus.PENDING: "En attente" -> "Pending"',
+        '  ? enum.FooStatus.ARCHIVED (missing translation)',
+      ].join('\n'),
+    );
+  });
+});
+
+describe(getParseErrorLocation, () => {
+  const content = '{\n  "enum": {\n    "FooStatus": { "ACTIVE": "Active", },\n  }\n}';
+
+  it('should locate JSON and YAML parse errors', () => {
+    const jsonError = (() => {
+      try {
+        jsonFileFormat.parse(content);
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(getParseErrorLocation(content, jsonError)).toEqual({ line: 3, column: 40 });
+    expect(getParseErrorMessage(jsonError)).not.toContain('"ACTIVE"');
+
+    const yamlContent = 'enum:\n  FooStatus:\n    ACTIVE: "Active\n';
+    const yamlError = (() => {
+      try {
+        yamlFileFormat.parse(yamlContent);
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(getParseErrorLocation(yamlContent, yamlError).line).toBeGreaterThanOrEqual(3);
+  });
+
+  it('should parse hand-edited JSON files tolerantly', () => {
+    expect(Array.from(jsonFileFormat.parseTolerant!(content).values())).toEqual([{ key: 'enum.FooStatus.ACTIVE', value: 'Active' }]);
+  });
+});
+
+describe(findRenamedTranslationKeys, () => {
+  it('should find new keys for renamed schemas and renumbered enum options', () => {
+    const schema = {
+      generatedName: 'FooLifecycleStatus',
+      rawSchema: {
+        enum: {
+          fullGrpcName: 'foo.v1.FooStatus',
+          options: [
+            { name: 'ACTIVE', number: 1 },
+            { name: 'ARCHIVED', number: 2 },
+          ],
+        },
+      },
+    } as unknown as GeneratedSchema;
+    const previousTranslations = Object.fromEntries(
+      ['enum.FooStatus.ACTIVE', 'enum.FooStatus.DELETED'].map((key) => [
+        key,
+        {
+          key,
+          value: key,
+          file: 'translations/en/foo.json',
+          source: {
+            enum: {
+              fullGrpcName: 'foo.v1.FooStatus',
+              generatedName: 'FooStatus',
+              values: { Active: 'ACTIVE', Deleted: 'DELETED' },
+              numbers: { ACTIVE: 1, DELETED: 2 },
+            },
+          },
+        },
+      ]),
+    );
+    const previousState: I18nPluginState = { translationsWritten: { en: { foo: previousTranslations } } };
+    const toMap = (keys: string[], source?: GeneratedSchema) => new Map(keys.map((key) => [key, { key, value: key, source }]));
+
+    expect(
+      findRenamedTranslationKeys(
+        toMap(['enum.FooStatus.ACTIVE', 'enum.FooStatus.DELETED']),
+        toMap(['enum.FooLifecycleStatus.ACTIVE', 'enum.FooLifecycleStatus.ARCHIVED'], schema),
+        getPreviousWrittenTranslations(previousState, 'en', 'foo'),
+      ),
+    ).toEqual([
+      { previousKey: 'enum.FooStatus.ACTIVE', key: 'enum.FooLifecycleStatus.ACTIVE', fullGrpcName: 'foo.v1.FooStatus' },
+      { previousKey: 'enum.FooStatus.DELETED', key: 'enum.FooLifecycleStatus.ARCHIVED', fullGrpcName: 'foo.v1.FooStatus' },
+    ]);
+    expect(getPreviousWrittenTranslations(previousState, 'fr', 'foo')).toEqual({});
+    // State written before translations were keyed by language and namespace is only keyed by translation key
+    const legacyState = parsePreviousPluginState(
+      JSON.stringify({ plugins: { I18nPlugin: { translationsWritten: previousTranslations } } }),
+      'I18nPlugin',
+    );
+
+    expect(getPreviousWrittenTranslations(legacyState!, 'fr', 'foo')).toEqual(previousTranslations);
+  });
+});
+
+describe(buildState, () => {
+  it('should key written translations by language and namespace, with their file and source', () => {
+    const oneOf = {
+      generatedName: 'FooEvent',
+      rawSchema: { oneOf: { fullGrpcName: 'foo.v1.Event', properties: new Map([['created', { name: 'created' }]]) } },
+    } as unknown as GeneratedSchema;
+    const polymorph = {
+      generatedName: 'FooTarget',
+      rawSchema: { polymorph: { fullGrpcName: 'foo.v1.Target', members: ['foo.v1.Order'] } },
+    } as unknown as GeneratedSchema;
+    const translations = (value: string): Translation[] => [
+      { key: 'oneOf.FooEvent.created', value, source: oneOf },
+      { key: 'polymorph.FooTarget.foo\\.v1\\.Order', value, source: polymorph },
+    ];
+
+    const state = buildState([
+      { file: 'translations/en/foo.json', language: 'en', namespace: 'foo', translations: translations('Created') },
+      { file: 'translations/fr/foo.json', language: 'fr', namespace: 'foo', translations: translations('Créé') },
+    ]);
+
+    expect(state.translationsWritten.en?.foo?.['oneOf.FooEvent.created']).toEqual({
+      key: 'oneOf.FooEvent.created',
+      value: 'Created',
+      file: 'translations/en/foo.json',
+      source: { oneOf: { fullGrpcName: 'foo.v1.Event', generatedName: 'FooEvent', values: ['created'] } },
+    });
+    expect(state.translationsWritten.fr?.foo?.['oneOf.FooEvent.created']?.value).toEqual('Créé');
+    expect(state.translationsWritten.fr?.foo?.['polymorph.FooTarget.foo\\.v1\\.Order']?.source).toEqual({
+      polymorph: { fullGrpcName: 'foo.v1.Target', generatedName: 'FooTarget', members: ['foo.v1.Order'] },
+    });
+  });
+});
+
+describe(expandTranslationVariants, () => {
+  const translation: Translation = { key: 'enum.FooStatus.PENDING', value: 'Pending' };
+
+  it('should expand plural forms for the language and named contexts', () => {
+    expect(expandTranslationVariants(translation, { plural: true }, 'en').map((t) => t.key)).toEqual([
+      'enum.FooStatus.PENDING_one',
+      'enum.FooStatus.PENDING_other',
+    ]);
+    expect(expandTranslationVariants(translation, { plural: true }, 'ru').map((t) => t.key)).toEqual([
+      'enum.FooStatus.PENDING_one',
+      'enum.FooStatus.PENDING_few',
+      'enum.FooStatus.PENDING_many',
+      'enum.FooStatus.PENDING_other',
+    ]);
+    expect(expandTranslationVariants(translation, { plural: true, contexts: ['male'] }, 'en').map((t) => t.key)).toEqual([
+      'enum.FooStatus.PENDING_one',
+      'enum.FooStatus.PENDING_other',
+      'enum.FooStatus.PENDING_male_one',
+      'enum.FooStatus.PENDING_male_other',
+    ]);
+  });
+
+  it('should group existing variants with their generated variant group', () => {
+    const newTranslations = new Map(
+      expandTranslationVariants(translation, { plural: true, contexts: ['male'] }, 'en').map((t) => [t.key, t] as const),
+    );
+    const existingTranslations = new Map(
+      ['enum.FooStatus.PENDING', 'enum.FooStatus.PENDING_few', 'enum.FooStatus.REMOVED_male_one', 'enum.FooStatus.ACTIVE'].map((key) => [
+        key,
+        { key, value: key },
+      ]),
+    );
+
+    const groups = groupTranslationVariants(buildProspectiveTranslations(newTranslations, existingTranslations), newTranslations);
+
+    expect(Object.fromEntries(groups)).toEqual({
+      'enum.FooStatus.PENDING': [
+        'enum.FooStatus.PENDING_one',
+        'enum.FooStatus.PENDING_other',
+        'enum.FooStatus.PENDING_male_one',
+        'enum.FooStatus.PENDING_male_other',
+        'enum.FooStatus.PENDING',
+        'enum.FooStatus.PENDING_few',
+      ],
+      'enum.FooStatus.REMOVED': ['enum.FooStatus.REMOVED_male_one'],
+    });
+  });
+});
+
+describe(buildLazyResourceNodes, () => {
+  it('should build dynamic import loaders and a backend module reading through them', () => {
+    const printer = ts.createPrinter();
+    const sourceFile = ts.createSourceFile('i18n.ts', '', ts.ScriptTarget.ESNext);
+    const nodes = buildLazyResourceNodes({ en: { 'foo': './en/foo.json', 'foo-bar': './en/foo-bar.json' } });
+    const printed = nodes.map((node) => printer.printNode(ts.EmitHint.Unspecified, node, sourceFile)).join('\n');
+
+    expect(printed).toContain("foo: () => import('./en/foo.json'),");
+    expect(printed).toContain("'foo-bar': () => import('./en/foo-bar.json')");
+    expect(printed).toContain('export type I18nLazyResources<TLanguage extends keyof typeof i18nResourceLoaders> = {');
+    expect(printed).toContain('export const i18nResourcesBackend: BackendModule = {');
+    expect(printed).toContain('loader().then(resources => callback(null, resources.default), error => callback(error, false));');
+  });
+});
+
+describe(collectCommonTranslationSources, () => {
+  it('should collect the schemas named by defined any values and polymorphs, and package labels when opted in', () => {
+    const fooPackage: PackageSummary = { package: 'foo.v1', label: 'Foo' };
+    const schemas = new Map<string, GeneratedSchema>(
+      [
+        {
+          generatedName: 'FooEvent',
+          parentPackage: fooPackage,
+          rawSchema: {
+            object: {
+              fullGrpcName: 'foo.v1.Event',
+              properties: new Map([
+                ['payload', { schema: { array: { itemSchema: { any: { onlyDefinedTypes: ['foo.v1.Created', 'foo.v1.Deleted'] } } } } }],
+              ]),
+            },
+          },
+        },
+        { generatedName: 'FooCreated', parentPackage: fooPackage, rawSchema: { object: { fullGrpcName: 'foo.v1.Created', properties: new Map() } } },
+        { generatedName: 'FooDeleted', rawSchema: { object: { fullGrpcName: 'foo.v1.Deleted', properties: new Map() } } },
+        { generatedName: 'BarTarget', rawSchema: { polymorph: { fullGrpcName: 'bar.v1.Target', members: ['foo.v1.Created', 'bar.v1.Missing'] } } },
+      ].map((schema) => [schema.generatedName, schema as unknown as GeneratedSchema]),
+    );
+
+    expect(collectCommonTranslationSources(schemas, false).map((source) => source.type === 'schemaName' && source.schema.generatedName)).toEqual([
+      'FooCreated',
+      'FooDeleted',
+    ]);
+    expect(collectCommonTranslationSources(schemas, true).filter((source) => source.type === 'packageLabel')).toEqual([
+      { type: 'packageLabel', package: fooPackage },
+    ]);
+    expect(
+      collectCommonTranslationSources(schemas, true).map((source) =>
+        defaultCommonTranslationPathOrGetter(source, {} as unknown as I18nPluginTranslationContext),
+      ),
+    ).toEqual(['schema.foo\\.v1\\.Created', 'schema.foo\\.v1\\.Deleted', 'package.foo\\.v1']);
+  });
+});
+
+describe(pseudoLocalizeValue, () => {
+  it('should accent, expand and bracket values, leaving interpolation placeholders intact', () => {
+    expect(pseudoLocalizeValue('Save')).toEqual('[Šáṽé~~]');
+    expect(pseudoLocalizeValue('Hello {{name}}, see $t(common.help) <1>here</1>', { expansion: 0 })).toEqual(
+      '[Ĥéļļó {{name}}, šéé $t(common.help) <1>ĥéŕé</1>]',
+    );
+    expect(pseudoLocalizeValue('Save', { accents: false, brackets: ['⟦', '⟧'], expansion: 0.5 })).toEqual('⟦Save~~⟧');
+  });
+});
+
+describe(byPackage, () => {
+  const fooPackage: PackageSummary = { package: 'foo.v1', label: 'Foo Orders' };
+  const fooAdminPackage: PackageSummary = { package: 'foo.admin.v1', label: undefined };
+  const schemas = new Map<string, GeneratedSchema>(
+    [
+      { generatedName: 'FooStatus', parentPackage: fooPackage, rawSchema: { enum: { options: [] } } },
+      { generatedName: 'FooEvent', parentPackage: fooPackage, rawSchema: { oneOf: { properties: new Map() } } },
+      { generatedName: 'FooOrder', parentPackage: fooPackage, rawSchema: { object: { properties: new Map() } } },
+      { generatedName: 'FooAdminRole', parentPackage: fooAdminPackage, rawSchema: { enum: { options: [] } } },
+      {
+        generatedName: 'FooAdminRoleHelper',
+        parentPackage: fooAdminPackage,
+        rawSchema: { enum: { options: [], derivedHelperType: 'filterableFields' } },
+      },
+    ].map((schema) => [schema.generatedName, schema as unknown as GeneratedSchema]),
+  );
+  const getFileSchemas = (files: I18nPluginFileGeneratorConfig[]) =>
+    Object.fromEntries(
+      files.map((file) => [
+        file.fileName,
+        Array.from(schemas.values())
+          .filter((schema) => typeof file.schemaFilter === 'function' && file.schemaFilter(schema))
+          .map((s) => s.generatedName),
+      ]),
+    );
+
+  it('should write one file per package, top-level package or schema kind', () => {
+    expect(getFileSchemas(byPackage({ directory: 'translations', language: 'en' })(schemas, []))).toEqual({
+      'foo-admin-v1.json': ['FooAdminRole'],
+      'foo-orders.json': ['FooStatus', 'FooEvent'],
+    });
+    expect(getFileSchemas(byTopLevelPackage({ directory: 'translations', language: 'en', objectPropertyLabels: true })(schemas, []))).toEqual({
+      'foo.json': ['FooStatus', 'FooEvent', 'FooOrder', 'FooAdminRole'],
+    });
+    expect(
+      getFileSchemas(bySchemaKind({ directory: 'translations', language: 'en', fileNameWriter: (group) => `${group.name}.yaml` })(schemas, [])),
+    ).toEqual({
+      'enum.yaml': ['FooStatus', 'FooAdminRole'],
+      'oneOf.yaml': ['FooEvent'],
+    });
+  });
+});
+
+describe(buildNamespaceAccessorNodes, () => {
+  it('should build fixed t accessors and react-i18next hooks for each namespace', () => {
+    const printer = ts.createPrinter();
+    const sourceFile = ts.createSourceFile('i18n.ts', '', ts.ScriptTarget.ESNext);
+    const print = (withHooks: boolean) =>
+      buildNamespaceAccessorNodes(['common', 'foo-bar'], withHooks)
+        .map((node) => printer.printNode(ts.EmitHint.Unspecified, node, sourceFile))
+        .join('\n');
+
+    expect(print(false)).toContain("export const getCommonT = (lng?: string | null) => i18n.getFixedT(lng ?? null, 'common');");
+    expect(print(false)).not.toContain('useTranslation');
+    expect(print(true)).toContain("export const useFooBarTranslation = () => useTranslation('foo-bar');");
+  });
+});
+
+describe(classifyTranslationKeys, () => {
+  const toMap = (keys: string[]) => new Map(keys.map((key) => [key, { key, value: key }]));
+  const existingTranslations = toMap([
+    'enum.FooStatus.ACTIVE',
+    'enum.FooStatus.REMOVED',
+    'enum.Custom.ONE',
+    'oneOf.OldEvent.created',
+    'object.OldOrder.orderId',
+    'method.fooV1OldMethod',
+    'pages.home.title',
+  ]);
+  const newTranslations = toMap(['enum.FooStatus.ACTIVE', 'enum.FooStatus.PENDING']);
+
+  it('should classify keys only in the file as manual without previous state', () => {
+    expect(classifyTranslationKeys(existingTranslations, newTranslations, DEFAULT_MANAGED_KEY_PREFIXES)).toEqual({
+      generated: ['enum.FooStatus.ACTIVE', 'enum.FooStatus.PENDING'],
+      orphaned: [],
+      manual: ['enum.Custom.ONE', 'enum.FooStatus.REMOVED', 'method.fooV1OldMethod', 'object.OldOrder.orderId', 'oneOf.OldEvent.created'],
+      unmanaged: ['pages.home.title'],
+    });
+  });
+
+  it('should tell orphaned and manual keys apart using the previous state', () => {
+    const previousState: I18nPluginState = {
+      translationsWritten: {
+        en: {
+          foo: {
+            'enum.FooStatus.REMOVED': {
+              key: 'enum.FooStatus.REMOVED',
+              value: 'Removed',
+              file: 'translations/en/foo.json',
+              source: { enum: { fullGrpcName: 'foo.v1.FooStatus', generatedName: 'FooStatus', values: { Removed: 'REMOVED' } } },
+            },
+            'enum.Custom.ONE': { key: 'enum.Custom.ONE', value: 'One', file: 'translations/en/foo.json' },
+          },
+        },
+      },
+      keyClassifications: [
+        {
+          fileName: 'foo.json',
+          language: 'en',
+          namespace: 'foo',
+          generated: [],
+          orphaned: ['oneOf.OldEvent.created'],
+          manual: [],
+          unmanaged: [],
+          pruned: [],
+        },
+      ],
+    };
+
+    expect(
+      classifyTranslationKeys(
+        existingTranslations,
+        newTranslations,
+        DEFAULT_MANAGED_KEY_PREFIXES,
+        getPreviousTranslationKeys(previousState, 'en', 'foo'),
+      ),
+    ).toMatchObject({
+      orphaned: ['enum.FooStatus.REMOVED', 'oneOf.OldEvent.created'],
+      manual: ['enum.Custom.ONE', 'method.fooV1OldMethod', 'object.OldOrder.orderId'],
+    });
+  });
+});